@@ -1,8 +1,65 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 import knex, { Knex } from "knex";
-import { Row, findAll, find, insertAll, insert, countAll } from "..";
+import {
+  Row,
+  findAll,
+  find,
+  insertAll,
+  insert,
+  countAll,
+  findAllByCursor,
+  findPage,
+  iterateAll,
+  streamAll,
+  updateAll,
+  softDeleteAll,
+  restoreAll,
+  deleteAllPermanently,
+  upsert,
+  upsertAll,
+  insertRow,
+  insertRows,
+  defineTable,
+  StaleRowError,
+  findAuditHistory,
+  jsonCodec,
+  booleanCodec,
+  dateCodec,
+  bigintCodec,
+  enumCodec,
+  belongsTo,
+  hasOne,
+  hasMany,
+  belongsToMany,
+  TableDefinition,
+  createRowLoader,
+  Repository,
+  withTransaction,
+  ColumnNotFoundError,
+  RowNotFoundError,
+  UniqueViolationError,
+  ForeignKeyViolationError,
+  NotNullViolationError,
+  DeadlockError,
+  toDatabaseError,
+  Filter,
+} from "..";
 
 const TABLE = "kansen";
+const AUDIT_TABLE = "kansen_audit_log";
+
+interface KansenSchema {
+  id: number;
+  time_created: Date;
+  time_updated: Date;
+  time_deleted: Date | null;
+  key: string;
+  name: string;
+  score: number;
+  version: number;
+}
+
+const kansenDefinition = defineTable<KansenSchema>()({ tableName: TABLE });
 
 const connections = [
   knex({
@@ -57,6 +114,37 @@ function createTestRow(): { row: Row; conn: Knex } {
 }
 
 beforeAll(async () => {
+  for await (const conn of connections) {
+    await conn.schema.createTable(AUDIT_TABLE, (table) => {
+      table.increments("id");
+      table.string("table_name");
+      table.text("primary_key").nullable();
+      table.string("operation");
+      table.text("old_values").nullable();
+      table.text("new_values").nullable();
+      table.string("actor").nullable();
+      table.timestamp("time_created");
+    });
+
+    await conn.schema.createTable("skin", (table) => {
+      table.increments("id");
+      table.integer("kansen_id");
+      table.string("name");
+      table.timestamp("time_deleted").nullable();
+    });
+
+    await conn.schema.createTable("tag", (table) => {
+      table.increments("id");
+      table.string("name");
+      table.timestamp("time_deleted").nullable();
+    });
+
+    await conn.schema.createTable("kansen_tag", (table) => {
+      table.integer("kansen_id");
+      table.integer("tag_id");
+    });
+  }
+
   await mysql2Conn.schema.createTable(TABLE, (table) => {
     table.increments("id");
 
@@ -68,9 +156,10 @@ beforeAll(async () => {
       );
     table.timestamp("time_deleted").nullable().defaultTo(null);
 
-    table.string("key");
+    table.string("key").unique();
     table.string("name");
     table.integer("score");
+    table.integer("version").defaultTo(0);
   });
 
   for await (const conn of [betterSqlite3Conn, sqlite3Conn]) {
@@ -81,9 +170,10 @@ beforeAll(async () => {
       table.timestamp("time_updated");
       table.timestamp("time_deleted").nullable();
 
-      table.string("key");
+      table.string("key").unique();
       table.string("name");
       table.integer("score");
+      table.integer("version").defaultTo(0);
     });
   }
 });
@@ -99,6 +189,24 @@ describe.each([
   ["better-sqlite3", betterSqlite3Conn],
   ["sqlite3", sqlite3Conn],
 ])("connection: %s", (_, conn) => {
+  const captureQueries = async (
+    fn: () => Promise<unknown>
+  ): Promise<string[]> => {
+    const queries: string[] = [];
+    const onQuery = ({ sql }: { sql: string }): void => {
+      queries.push(sql);
+    };
+
+    conn.on("query", onQuery);
+    try {
+      await fn();
+    } finally {
+      conn.removeListener("query", onQuery);
+    }
+
+    return queries;
+  };
+
   const kansenTable = [
     [1, "karlsruhe", "Karlsruhe", 10],
     [2, "leipzig", "Leipzig", 20],
@@ -121,6 +229,11 @@ describe.each([
 
   afterEach(async () => {
     await conn(TABLE).truncate();
+    await conn(AUDIT_TABLE).truncate();
+
+    for await (const tableName of ["skin", "tag", "kansen_tag"]) {
+      await conn(tableName).truncate();
+    }
   });
 
   describe("query", () => {
@@ -209,302 +322,2534 @@ describe.each([
       });
     });
 
-    describe("find", () => {
-      it("should return a row", async () => {
-        const row = await find({
+    describe("filter", () => {
+      it("should support column values and operators", async () => {
+        const rows = await findAll({
           conn: conn,
           tableName: TABLE,
-          where() {
-            void this.where({ score: 30 });
+          where: {
+            score: { gte: 20, lt: 55 },
+            name: { like: "%i%" },
+            id: { notIn: [2] },
+            time_deleted: null,
           },
         });
 
-        expect(row.getColumn<string>("name")).toBe("Z23");
+        expect(rows.map((row) => row.id)).toEqual([4, 5]);
       });
 
-      it("should return null if row does not exist", async () => {
-        const row = await find({
+      it("should support and, or and not", async () => {
+        const count = await countAll({
           conn: conn,
           tableName: TABLE,
-          where() {
-            void this.where({ key: "graf_zeppelin" });
+          where: {
+            or: [
+              { key: "z23" },
+              { and: [{ score: { gt: 40 } }, { not: { key: "odin" } }] },
+            ],
           },
         });
 
-        expect(row).toBeNull();
-      });
-    });
-
-    describe("countAll", () => {
-      it("should return count of rows", async () => {
-        const count = await countAll({
-          conn: conn,
-          tableName: TABLE,
-        });
-        expect(count).toBe(6);
+        expect(count).toBe(2);
       });
 
-      it("should return count of rows based on query", async () => {
-        const count = await countAll({
+      it("should support typed filters", async () => {
+        const row = await find({
           conn: conn,
-          tableName: TABLE,
-          where() {
-            void this.where("score", ">=", 30);
+          table: kansenDefinition,
+          where: {
+            key: { in: ["leipzig", "z23"] },
+            score: { between: [25, 35] },
           },
         });
 
-        expect(count).toBe(4);
+        expect(row.id).toBe(3);
+
+        await expect(
+          // @ts-expect-error misspelled column
+          find({ conn: conn, table: kansenDefinition, where: { nmae: "Z23" } })
+        ).rejects.toThrow();
       });
 
-      it("should exclude deleted rows", async () => {
-        const rowsToBeDeleted = await findAll({
+      it("should pass values as bindings", async () => {
+        const rows = await findAll({
           conn: conn,
           tableName: TABLE,
-          where() {
-            void this.where(conn.raw("MOD(score, 2)"), "<>", 0);
-          },
+          where: { name: "' OR 1 = 1; DROP TABLE kansen; --" },
         });
 
-        await Promise.all(rowsToBeDeleted.map((row) => row.delete()));
+        expect(rows).toEqual([]);
 
-        const count = await countAll({
-          conn: conn,
-          tableName: TABLE,
-          where() {
-            void this.where("score", ">=", 20);
-          },
-        });
+        await expect(
+          findAll({
+            conn: conn,
+            tableName: TABLE,
+            where: { "name = name OR 1 = 1 --": "Z23" },
+          })
+        ).rejects.toThrow();
 
-        expect(count).toBe(3);
+        expect(await countAll({ conn: conn, tableName: TABLE })).toBe(6);
       });
-    });
 
-    describe("insertAll", () => {
-      it("should insert new rows", async () => {
-        await insertAll(
-          TABLE,
-          [
-            {
-              key: "mainz",
-              name: "Mainz",
-              score: 45,
-            },
-            {
-              key: "roon",
-              name: "Roon",
-              score: 45,
-            },
-          ],
-          {
+      it("should throw error for unknown operator", async () => {
+        await expect(
+          findAll({
             conn: conn,
-          }
+            tableName: TABLE,
+            where: { score: { greaterThan: 10 } as object },
+          })
+        ).rejects.toThrow(
+          "Unknown filter operator 'greaterThan' for column 'score'"
         );
+      });
 
-        const [mainzRow, roonRow] = await Promise.all([
-          find({
+      it("should throw error for invalid logical operand", async () => {
+        for (const [operator, where] of [
+          ["or", { or: { name: "a" } }],
+          ["or", { or: ["a"] }],
+          ["and", { and: "xy" }],
+          ["and", { and: [null] }],
+          ["not", { not: null }],
+          ["not", { not: [{ name: "a" }] }],
+        ] as [string, object][]) {
+          await expect(
+            findAll({ conn: conn, tableName: TABLE, where: where as Filter })
+          ).rejects.toThrow(
+            `Invalid operand for filter operator '${operator}'`
+          );
+        }
+      });
+
+      it("should throw error for invalid operand", async () => {
+        await expect(
+          findAll({
             conn: conn,
             tableName: TABLE,
-            where() {
-              void this.where("key", "mainz");
-            },
-          }),
-          find({
+            where: { score: { gte: { a: 1 } } },
+          })
+        ).rejects.toThrow(
+          "Invalid operand for filter operator 'gte' for column 'score'"
+        );
+
+        await expect(
+          findAll({ conn: conn, tableName: TABLE, where: { id: [1, 2] } })
+        ).rejects.toThrow(
+          "Invalid operand for filter operator 'eq' for column 'id'"
+        );
+
+        await expect(
+          findAll({
             conn: conn,
             tableName: TABLE,
-            where() {
-              void this.where("key", "roon");
-            },
-          }),
-        ]);
-
-        expect(mainzRow.getColumn<number>("name")).toBe("Mainz");
-        expect(roonRow.getColumn<number>("name")).toBe("Roon");
-      });
-    });
+            where: { id: { in: "abc" } },
+          })
+        ).rejects.toThrow(
+          "Invalid operand for filter operator 'in' for column 'id'"
+        );
 
-    describe("insert", () => {
-      it("should insert a new row and return the new auto increment", async () => {
-        const id = await insert(
-          TABLE,
-          {
-            key: "u_47",
-            name: "U-47",
-            score: 40,
-          },
-          {
+        await expect(
+          findAll({
             conn: conn,
-          }
+            tableName: TABLE,
+            where: { name: { like: ["%a%"] } },
+          })
+        ).rejects.toThrow(
+          "Invalid operand for filter operator 'like' for column 'name'"
         );
+      });
+    });
 
-        const newRow = await find({
+    describe("findPage", () => {
+      it("should return rows with page metadata", async () => {
+        const result = await findPage({
           conn: conn,
           tableName: TABLE,
-          where() {
-            void this.where({ id });
+          pagination: { page: 2, limit: 4 },
+          before(query) {
+            void query.orderBy("id");
           },
         });
 
-        expect(newRow.getColumn("name")).toBe("U-47");
-        expect(newRow.getColumn("score")).toBe(40);
+        expect(result.rows.map((row) => row.id)).toEqual([5, 6]);
+        expect(result).toMatchObject({
+          total: 6,
+          page: 2,
+          limit: 4,
+          pageCount: 2,
+          hasNext: false,
+          hasPrev: true,
+        });
       });
-    });
-  });
 
-  describe("row", () => {
-    describe("setColumns", () => {
-      it("should update data both on row and on getConnection()", async () => {
-        const row = await find({
+      it("should apply where to both queries in a transaction", async () => {
+        const result = await findPage({
           conn: conn,
           tableName: TABLE,
+          transaction: true,
           where() {
-            void this.where({ key: "z23" });
+            void this.where("score", ">=", 30);
           },
+          pagination: { limit: 2 },
         });
 
-        await row.setColumns({
-          key: "z23_retrofit",
-          name: "Z23 (Retrofit)",
-          score: 40,
+        expect(result.rows).toHaveLength(2);
+        expect(result).toMatchObject({
+          total: 4,
+          page: 1,
+          pageCount: 2,
+          hasNext: true,
+          hasPrev: false,
         });
+      });
 
-        expect(row.getColumn("key")).toBe("z23_retrofit");
-        expect(row.getColumn("name")).toBe("Z23 (Retrofit)");
-        expect(row.getColumn("score")).toBe(40);
-
-        const updatedRow = await find({
+      it("should apply modify to both queries", async () => {
+        const result = await findPage({
           conn: conn,
           tableName: TABLE,
-          where() {
-            void this.where({ key: "z23_retrofit" });
+          pagination: { limit: 2 },
+          modify(query) {
+            void query.where("score", "<", 40);
+          },
+          before(query) {
+            void query.orderBy("score", "desc");
           },
         });
 
-        expect(updatedRow.getColumn("name")).toBe("Z23 (Retrofit)");
-        expect(updatedRow.getColumn("score")).toBe(40);
+        expect(result.rows.map((row) => row.id)).toEqual([3, 2]);
+        expect(result).toMatchObject({ total: 3, pageCount: 2, hasNext: true });
       });
 
-      it("should throw error if column does not exist", async () => {
-        const row = await find({
+      it("should count by the qualified identifier column", async () => {
+        await conn("kansen_tag").insert([
+          { kansen_id: 1, tag_id: 1 },
+          { kansen_id: 3, tag_id: 1 },
+          { kansen_id: 4, tag_id: 1 },
+          { kansen_id: 4, tag_id: 2 },
+        ]);
+
+        const result = await findPage({
           conn: conn,
           tableName: TABLE,
-          where() {
-            void this.where("key", "prinz_eugen");
+          pagination: { limit: 2 },
+          modify(query) {
+            void query
+              .join("kansen_tag", "kansen_tag.kansen_id", `${TABLE}.id`)
+              .where("kansen_tag.tag_id", 1);
+          },
+          before(query) {
+            void query.orderBy(`${TABLE}.id`);
           },
         });
 
-        await expect(row.setColumns({ status: "ok" })).rejects.toThrow(
-          `Column 'status' does not exist for table kansen`
-        );
+        expect(result.rows.map((row) => row.id)).toEqual([1, 3]);
+        expect(result).toMatchObject({ total: 3, pageCount: 2, hasNext: true });
       });
     });
 
-    describe("setColumn", () => {
-      it("should update data", async () => {
-        const row = await find({
+    describe("findAllByCursor", () => {
+      it("should paginate forward and backward with cursors", async () => {
+        const opts = {
           conn: conn,
           tableName: TABLE,
-          where() {
-            void this.where({ key: "odin" });
-          },
+          orderBy: [{ column: "score", order: "desc" as const }],
+          limit: 4,
+        };
+
+        const page1 = await findAllByCursor(opts);
+        expect(page1.rows.map((row) => row.id)).toEqual([6, 5, 4, 3]);
+        expect(page1.prevCursor).toBeNull();
+
+        const page2 = await findAllByCursor({
+          ...opts,
+          cursor: page1.nextCursor,
         });
+        expect(page2.rows.map((row) => row.id)).toEqual([2, 1]);
+        expect(page2.nextCursor).toBeNull();
 
-        await row.setColumn("name", "KMS Odin");
+        const prevPage = await findAllByCursor({
+          ...opts,
+          cursor: page2.prevCursor,
+        });
+        expect(prevPage.rows.map((row) => row.id)).toEqual([6, 5, 4, 3]);
+        expect(prevPage.prevCursor).toBeNull();
+        expect(prevPage.nextCursor).toBe(page1.nextCursor);
+      });
 
-        expect(row.getColumn("name")).toBe("KMS Odin");
+      it("should use primary key as tiebreaker", async () => {
+        await conn(TABLE).update({ score: 10 });
 
-        const updatedRow = await find({
+        const opts = {
           conn: conn,
           tableName: TABLE,
-          where() {
-            void this.where({ key: "odin" });
-          },
+          orderBy: ["score"],
+          limit: 4,
+        };
+
+        const page1 = await findAllByCursor(opts);
+        const page2 = await findAllByCursor({
+          ...opts,
+          cursor: page1.nextCursor,
         });
 
-        expect(updatedRow.getColumn("name")).toBe("KMS Odin");
+        expect(page1.rows.map((row) => row.id)).toEqual([1, 2, 3, 4]);
+        expect(page2.rows.map((row) => row.id)).toEqual([5, 6]);
+      });
+
+      it("should throw error if cursor is invalid", async () => {
+        await expect(
+          findAllByCursor({
+            conn: conn,
+            tableName: TABLE,
+            cursor: "invalid",
+          })
+        ).rejects.toThrow("Invalid cursor 'invalid'");
+
+        for (const json of ["null", "42", '"next"']) {
+          const cursor = Buffer.from(json).toString("base64");
+          await expect(
+            findAllByCursor({ conn: conn, tableName: TABLE, cursor })
+          ).rejects.toThrow(`Invalid cursor '${cursor}'`);
+        }
+      });
+
+      it("should throw error if cursor contains invalid values", async () => {
+        const encode = (values: unknown[]): string =>
+          Buffer.from(JSON.stringify({ direction: "next", values })).toString(
+            "base64"
+          );
+
+        for (const values of [
+          [{ password: "x" }],
+          [{ date: "junk" }],
+          [[1, 2]],
+        ]) {
+          const cursor = encode(values);
+          await expect(
+            findAllByCursor({ conn: conn, tableName: TABLE, cursor })
+          ).rejects.toThrow(`Invalid cursor '${cursor}'`);
+        }
       });
     });
 
-    describe("soft delete", () => {
-      it("delete should mark row as deleted and restore should mark row as not deleted", async () => {
-        const row = await find({
+    describe("iterateAll", () => {
+      it("should iterate all rows in batches", async () => {
+        const ids: number[] = [];
+
+        const queries = await captureQueries(async () => {
+          for await (const row of iterateAll({
+            conn: conn,
+            tableName: TABLE,
+            batchSize: 4,
+            orderBy: [{ column: "score", order: "desc" }],
+          })) {
+            ids.push(row.id);
+          }
+        });
+
+        expect(ids).toEqual([6, 5, 4, 3, 2, 1]);
+        expect(queries).toHaveLength(2);
+      });
+
+      it("should apply where and includeDeleted", async () => {
+        const ids: number[] = [];
+        for await (const row of iterateAll({
           conn: conn,
           tableName: TABLE,
+          batchSize: 2,
           where() {
-            void this.where({ key: "karlsruhe" });
+            void this.where("score", "<", 40);
           },
-        });
+        })) {
+          ids.push(row.id);
+        }
 
-        await row.delete();
+        expect(ids).toEqual([1, 2, 3]);
+      });
+    });
 
-        const deletedRow = await find({
+    describe("streamAll", () => {
+      it("should iterate all rows", async () => {
+        const ids: number[] = [];
+        for await (const row of streamAll({
           conn: conn,
           tableName: TABLE,
-          includeDeleted: true,
+          batchSize: 4,
+          orderBy: ["id"],
           where() {
-            void this.where({ key: "karlsruhe" });
+            void this.where("score", ">=", 20);
           },
-        });
-
-        expect(deletedRow.isDeleted).toBe(true);
+        })) {
+          ids.push(row.id);
+        }
 
-        await deletedRow.restore();
+        expect(ids).toEqual([2, 3, 4, 5, 6]);
+      });
+    });
 
-        const restoredRow = await find({
+    describe("find", () => {
+      it("should return a row", async () => {
+        const row = await find({
           conn: conn,
           tableName: TABLE,
-          includeDeleted: true,
           where() {
-            void this.where({ key: "karlsruhe" });
+            void this.where({ score: 30 });
           },
         });
 
-        expect(restoredRow.isDeleted).toBe(false);
+        expect(row.getColumn<string>("name")).toBe("Z23");
       });
 
-      it("should not retrieve deleted rows if excludeDeleted is true", async () => {
+      it("should return null if row does not exist", async () => {
         const row = await find({
           conn: conn,
           tableName: TABLE,
           where() {
-            void this.where({ key: "karlsruhe" });
+            void this.where({ key: "graf_zeppelin" });
           },
         });
 
-        await row.delete();
+        expect(row).toBeNull();
+      });
+    });
 
-        expect(
-          await find({
-            conn: conn,
-            tableName: TABLE,
+    describe("countAll", () => {
+      it("should return count of rows", async () => {
+        const count = await countAll({
+          conn: conn,
+          tableName: TABLE,
+        });
+        expect(count).toBe(6);
+      });
+
+      it("should return count of rows based on query", async () => {
+        const count = await countAll({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where("score", ">=", 30);
+          },
+        });
+
+        expect(count).toBe(4);
+      });
+
+      it("should exclude deleted rows", async () => {
+        const rowsToBeDeleted = await findAll({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where(conn.raw("MOD(score, 2)"), "<>", 0);
+          },
+        });
+
+        await Promise.all(rowsToBeDeleted.map((row) => row.delete()));
+
+        const count = await countAll({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where("score", ">=", 20);
+          },
+        });
+
+        expect(count).toBe(3);
+      });
+    });
+
+    describe("bulk operations", () => {
+      it("updateAll should update matching rows", async () => {
+        const count = await updateAll(
+          { score: 0 },
+          { conn: conn, tableName: TABLE, where: { score: { lte: 20 } } }
+        );
+
+        expect(count).toBe(2);
+        expect(
+          await countAll({ conn: conn, tableName: TABLE, where: { score: 0 } })
+        ).toBe(2);
+      });
+
+      it("updateAll should increment version column", async () => {
+        const data = { score: 0 };
+        const count = await updateAll(data, {
+          conn: conn,
+          tableName: TABLE,
+          versionCol: "version",
+          where: { key: "z23" },
+        });
+
+        expect(count).toBe(1);
+        expect(data).toEqual({ score: 0 });
+
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where: { key: "z23" },
+        });
+
+        expect(row.getColumn("version")).toBe(1);
+      });
+
+      it("softDeleteAll and restoreAll should mark rows", async () => {
+        const deletedCount = await softDeleteAll({
+          conn: conn,
+          tableName: TABLE,
+          where: { score: { gte: 40 } },
+        });
+
+        expect(deletedCount).toBe(3);
+        expect(await countAll({ conn: conn, tableName: TABLE })).toBe(3);
+
+        const restoredCount = await restoreAll({
+          conn: conn,
+          table: kansenDefinition,
+          where: { score: { gte: 45 } },
+        });
+
+        expect(restoredCount).toBe(2);
+        expect(await countAll({ conn: conn, tableName: TABLE })).toBe(5);
+      });
+
+      it("deleteAllPermanently should delete matching rows", async () => {
+        await softDeleteAll({
+          conn: conn,
+          tableName: TABLE,
+          where: { key: "odin" },
+        });
+
+        const count = await deleteAllPermanently({
+          conn: conn,
+          tableName: TABLE,
+          where: { score: { gte: 40 } },
+        });
+
+        expect(count).toBe(2);
+        expect(
+          await countAll({
+            conn: conn,
+            tableName: TABLE,
+            includeDeleted: true,
+          })
+        ).toBe(4);
+      });
+    });
+
+    describe("insertRow", () => {
+      it("should return the inserted row with default values", async () => {
+        const row = await insertRow(
+          kansenDefinition,
+          { key: "u_47", name: "U-47", score: 40 },
+          { conn: conn }
+        );
+
+        expect(row.id).toBe(7);
+        expect(row.getColumn("name")).toBe("U-47");
+        expect(row.getColumn("version")).toBe(0);
+      });
+
+      it("should use primary key values from row data", async () => {
+        const row = await insertRow(
+          TABLE,
+          { key: "u_47", name: "U-47", score: 40 },
+          { conn: conn, primaryCols: ["key"] }
+        );
+
+        expect(row.primaryKey).toEqual({ key: "u_47" });
+        expect(row.id).toBe(7);
+      });
+    });
+
+    describe("insertRows", () => {
+      it("should return the inserted rows in order", async () => {
+        const rows = await insertRows(
+          TABLE,
+          [
+            { key: "mainz", name: "Mainz", score: 45 },
+            { key: "roon", name: "Roon", score: 45 },
+          ],
+          { conn: conn }
+        );
+
+        expect(rows.map((row) => [row.id, row.getColumn("key")])).toEqual([
+          [7, "mainz"],
+          [8, "roon"],
+        ]);
+      });
+
+      it("should use RETURNING clause for better-sqlite3", async () => {
+        const queries = await captureQueries(() =>
+          insertRows(
+            TABLE,
+            [
+              { key: "mainz", name: "Mainz", score: 45 },
+              { key: "roon", name: "Roon", score: 45 },
+            ],
+            { conn: conn }
+          )
+        );
+
+        const isReturning = conn === betterSqlite3Conn;
+        expect(queries.some((sql) => sql.endsWith("returning *"))).toBe(
+          isReturning
+        );
+        expect(queries.filter((sql) => sql.startsWith("insert"))).toHaveLength(
+          isReturning ? 1 : 2
+        );
+      });
+    });
+
+    describe("upsert", () => {
+      it("should insert a new row", async () => {
+        const { status, row } = await upsert(
+          TABLE,
+          { key: "u_47", name: "U-47", score: 40 },
+          { conn: conn, conflictCols: ["key"] }
+        );
+
+        expect(status).toBe("inserted");
+        expect(row?.getColumn("name")).toBe("U-47");
+        expect(await countAll({ conn: conn, tableName: TABLE })).toBe(7);
+      });
+
+      it("should update the existing row", async () => {
+        const { status, row } = await upsert(
+          kansenDefinition,
+          { key: "z23", name: "Z23 (Retrofit)", score: 35 },
+          { conn: conn, conflictCols: ["key"], updateCols: ["score"] }
+        );
+
+        expect(status).toBe("updated");
+        expect(row?.id).toBe(3);
+        expect(row?.getColumn("name")).toBe("Z23");
+        expect(row?.getColumn("score")).toBe(35);
+        expect(await countAll({ conn: conn, tableName: TABLE })).toBe(6);
+      });
+
+      it("upsertAll should report status for each row", async () => {
+        const results = await upsertAll(
+          TABLE,
+          [
+            { key: "mainz", name: "Mainz", score: 45 },
+            { key: "odin", name: "Odin", score: 50 },
+          ],
+          { conn: conn, conflictCols: ["key"] }
+        );
+
+        expect(
+          results.map(({ status, row }) => [status, row?.getColumn("score")])
+        ).toEqual([
+          ["inserted", 45],
+          ["updated", 50],
+        ]);
+      });
+
+      it("should report unchanged existing row as updated", async () => {
+        const { status, row } = await upsert(
+          TABLE,
+          { key: "z23", name: "Z23", score: 30 },
+          { conn: conn, conflictCols: ["key"] }
+        );
+
+        expect(status).toBe("updated");
+        expect(row?.id).toBe(3);
+        expect(await countAll({ conn: conn, tableName: TABLE })).toBe(6);
+      });
+
+      it("should increment the version column of the existing row", async () => {
+        const { status, row } = await upsert(
+          kansenDefinition,
+          { key: "z23", name: "Z23", score: 30 },
+          { conn: conn, conflictCols: ["key"], versionCol: "version" }
+        );
+
+        expect(status).toBe("updated");
+        expect(row?.getColumn("version")).toBe(1);
+      });
+    });
+
+    describe("insertAll", () => {
+      it("should insert new rows", async () => {
+        await insertAll(
+          TABLE,
+          [
+            {
+              key: "mainz",
+              name: "Mainz",
+              score: 45,
+            },
+            {
+              key: "roon",
+              name: "Roon",
+              score: 45,
+            },
+          ],
+          {
+            conn: conn,
+          }
+        );
+
+        const [mainzRow, roonRow] = await Promise.all([
+          find({
+            conn: conn,
+            tableName: TABLE,
+            where() {
+              void this.where("key", "mainz");
+            },
+          }),
+          find({
+            conn: conn,
+            tableName: TABLE,
+            where() {
+              void this.where("key", "roon");
+            },
+          }),
+        ]);
+
+        expect(mainzRow.getColumn<number>("name")).toBe("Mainz");
+        expect(roonRow.getColumn<number>("name")).toBe("Roon");
+      });
+    });
+
+    describe("insert", () => {
+      it("should insert a new row and return the new auto increment", async () => {
+        const id = await insert(
+          TABLE,
+          {
+            key: "u_47",
+            name: "U-47",
+            score: 40,
+          },
+          {
+            conn: conn,
+          }
+        );
+
+        const newRow = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ id });
+          },
+        });
+
+        expect(newRow.getColumn("name")).toBe("U-47");
+        expect(newRow.getColumn("score")).toBe(40);
+      });
+    });
+
+    describe("createRowLoader", () => {
+      const countQueries = async (fn: () => Promise<void>): Promise<number> =>
+        (await captureQueries(fn)).length;
+
+      it("should load rows in the same tick with one query", async () => {
+        const loader = createRowLoader({ conn, tableName: TABLE });
+
+        let rows: (Row | null)[] = [];
+        const queryCount = await countQueries(async () => {
+          rows = await Promise.all([
+            loader.load(4),
+            loader.load(7),
+            loader.load(1),
+            loader.load(4),
+          ]);
+        });
+
+        expect(queryCount).toBe(1);
+        expect(rows.map((row) => row?.getColumn("key") ?? null)).toEqual([
+          "prinz_eugen",
+          null,
+          "karlsruhe",
+          "prinz_eugen",
+        ]);
+      });
+
+      it("loadMany should return rows in the order of ids", async () => {
+        const loader = createRowLoader({ conn, tableName: TABLE });
+
+        const rows = await loader.loadMany([3, 8, 2]);
+
+        expect(rows.map((row) => row?.id ?? null)).toEqual([3, null, 2]);
+      });
+
+      it("should support includeDeleted", async () => {
+        await conn(TABLE).where({ id: 5 }).update({ time_deleted: new Date() });
+
+        const loader = createRowLoader({ conn, tableName: TABLE });
+        const deletedLoader = createRowLoader({
+          conn,
+          tableName: TABLE,
+          includeDeleted: true,
+        });
+
+        expect(await loader.load(5)).toBeNull();
+        expect((await deletedLoader.load(5))?.getColumn("key")).toBe("odin");
+      });
+
+      it("should cache loaded rows", async () => {
+        const loader = createRowLoader({ conn, tableName: TABLE });
+        const row = await loader.load(3);
+
+        let cachedRow: Row | null = null;
+        const queryCount = await countQueries(async () => {
+          cachedRow = await loader.load(3);
+        });
+
+        expect(queryCount).toBe(0);
+        expect(cachedRow).toBe(row);
+
+        loader.clear(3);
+        expect(await loader.load(3)).not.toBe(row);
+      });
+
+      it("should remove updated and deleted rows from cache", async () => {
+        const loader = createRowLoader({ conn, tableName: TABLE });
+
+        const row = await loader.load(3);
+        await row?.setColumns({ score: 35 });
+
+        const updatedRow = await loader.load(3);
+        expect(updatedRow).not.toBe(row);
+        expect(updatedRow?.getColumn("score")).toBe(35);
+
+        await updatedRow?.delete();
+        expect(await loader.load(3)).toBeNull();
+      });
+    });
+
+    describe("Repository", () => {
+      it("should find and count rows of the table", async () => {
+        const repository = new Repository({ conn, table: kansenDefinition });
+
+        const rows = await repository.findAll({
+          where: { score: { gte: 40 } },
+        });
+        const row = await repository.find({ where: { key: "z23" } });
+        const rowById = await repository.findById(2);
+
+        const names: string[] = rows.map((item) => item.getColumn("name"));
+        expect(names).toEqual(["Prinz Eugen", "Odin", "Friedrich der Große"]);
+        expect(row?.id).toBe(3);
+        expect(rowById?.getColumn("key")).toBe("leipzig");
+        expect(await repository.findById(7)).toBeNull();
+        expect(await repository.count()).toBe(6);
+        expect(await repository.exists({ where: { key: "odin" } })).toBe(true);
+        expect(await repository.exists({ where: { key: "u_47" } })).toBe(false);
+      });
+
+      it("should insert rows and perform bulk operations", async () => {
+        const repository = new Repository({ conn, tableName: TABLE });
+
+        const id = await repository.insert({
+          key: "u_47",
+          name: "U-47",
+          score: 40,
+        });
+        await repository.insertAll([
+          { key: "u_81", name: "U-81", score: 35 },
+          { key: "u_101", name: "U-101", score: 35 },
+        ]);
+
+        expect((await repository.findById(id))?.getColumn("key")).toBe("u_47");
+        expect(
+          await repository.updateAll({ score: 0 }, { where: { score: 35 } })
+        ).toBe(2);
+        expect(await repository.softDeleteAll({ where: { score: 0 } })).toBe(2);
+        expect(await repository.restoreAll({ where: { key: "u_81" } })).toBe(1);
+        expect(
+          await repository.deleteAllPermanently({ where: { key: "u_47" } })
+        ).toBe(1);
+        expect(await repository.count()).toBe(7);
+      });
+
+      it("should use the provided connection instead of the default", async () => {
+        const repository = new Repository({ conn, table: kansenDefinition });
+
+        await expect(
+          conn.transaction(async (trx) => {
+            await repository.insert(
+              { key: "u_47", name: "U-47", score: 40 },
+              { conn: trx }
+            );
+            expect(
+              await repository.exists({ conn: trx, where: { key: "u_47" } })
+            ).toBe(true);
+
+            throw new Error("Rollback");
+          })
+        ).rejects.toThrow("Rollback");
+
+        expect(await repository.exists({ where: { key: "u_47" } })).toBe(false);
+      });
+    });
+
+    describe("rowClass", () => {
+      class KansenRow extends Row<number, KansenSchema> {
+        get name(): string {
+          return this.getColumn("name");
+        }
+      }
+
+      class UntypedKansenRow extends Row {
+        get key(): string {
+          return this.getColumn("key");
+        }
+      }
+
+      it("findAll and find should create rows with the class", async () => {
+        const rows = await findAll({
+          conn,
+          table: kansenDefinition,
+          where: { score: { gte: 45 } },
+          rowClass: KansenRow,
+        });
+        const row = await find({
+          conn,
+          tableName: TABLE,
+          idCol: "key",
+          where: { id: 3 },
+          rowClass: UntypedKansenRow,
+        });
+
+        expect(rows.every((item) => item instanceof KansenRow)).toBe(true);
+        expect(rows.map((item) => item.name)).toEqual([
+          "Odin",
+          "Friedrich der Große",
+        ]);
+        expect(row).toBeInstanceOf(UntypedKansenRow);
+        expect(row.key).toBe("z23");
+        expect(row.id).toBe("z23");
+      });
+
+      it("insertRow and insertRows should create rows with the class", async () => {
+        const row = await insertRow(
+          kansenDefinition,
+          { key: "u_47", name: "U-47", score: 40 },
+          { conn, rowClass: KansenRow }
+        );
+        const rows = await insertRows(
+          TABLE,
+          [{ key: "u_81", name: "U-81", score: 35 }],
+          { conn, rowClass: UntypedKansenRow }
+        );
+
+        expect(row).toBeInstanceOf(KansenRow);
+        expect(row.name).toBe("U-47");
+        expect(rows[0]).toBeInstanceOf(UntypedKansenRow);
+        expect(rows[0].key).toBe("u_81");
+      });
+
+      it("duplicate should create a row with the same class", async () => {
+        const row = await find({
+          conn,
+          table: kansenDefinition,
+          where: { key: "z23" },
+          rowClass: KansenRow,
+        });
+
+        const copy = await row.duplicate({ overrides: { key: "z23_copy" } });
+
+        expect(copy).toBeInstanceOf(KansenRow);
+        expect(copy.name).toBe("Z23");
+      });
+    });
+
+    describe("withTransaction", () => {
+      const findScore = async (key: string): Promise<number> =>
+        (
+          await find({ conn, table: kansenDefinition, where: { key } })
+        ).getColumn("score");
+
+      it("should commit the changes and return the value", async () => {
+        const count = await withTransaction(conn, (trx) =>
+          updateAll(
+            { score: 35 },
+            { conn: trx, tableName: TABLE, where: { id: 3 } }
+          )
+        );
+
+        expect(count).toBe(1);
+        expect(await findScore("z23")).toBe(35);
+      });
+
+      it("should roll back the changes if the callback rejects", async () => {
+        await expect(
+          withTransaction(conn, async (trx) => {
+            await updateAll(
+              { score: 35 },
+              { conn: trx, tableName: TABLE, where: { id: 3 } }
+            );
+
+            throw new Error("Rollback");
+          })
+        ).rejects.toThrow("Rollback");
+
+        expect(await findScore("z23")).toBe(30);
+      });
+
+      it("should use a savepoint in a transaction", async () => {
+        await withTransaction(conn, async (trx) => {
+          await updateAll(
+            { score: 35 },
+            { conn: trx, tableName: TABLE, where: { id: 3 } }
+          );
+
+          await expect(
+            withTransaction(trx, async (savepoint) => {
+              expect(savepoint).not.toBe(trx);
+              await updateAll(
+                { score: 50 },
+                { conn: savepoint, tableName: TABLE, where: { id: 4 } }
+              );
+
+              throw new Error("Rollback");
+            })
+          ).rejects.toThrow("Rollback");
+        });
+
+        expect(await findScore("z23")).toBe(35);
+        expect(await findScore("prinz_eugen")).toBe(40);
+      });
+
+      it("should retry the callback on deadlock and busy errors", async () => {
+        let attempts = 0;
+        const updateScore = async (
+          trx: Knex.Transaction,
+          error: Error & { code?: string }
+        ): Promise<number> => {
+          attempts += 1;
+          await updateAll(
+            { score: attempts },
+            { conn: trx, tableName: TABLE, where: { id: 3 } }
+          );
+
+          if (attempts < 3) {
+            throw error;
+          }
+
+          return attempts;
+        };
+
+        const busyError = Object.assign(new Error("Busy"), {
+          code: "SQLITE_BUSY",
+        });
+        const result = await withTransaction(
+          conn,
+          (trx) => updateScore(trx, busyError),
+          { retryDelay: 1 }
+        );
+
+        expect(result).toBe(3);
+        expect(await findScore("z23")).toBe(3);
+
+        attempts = 0;
+        const deadlockError = Object.assign(new Error("Deadlock"), {
+          code: "ER_LOCK_DEADLOCK",
+        });
+        await expect(
+          withTransaction(conn, (trx) => updateScore(trx, deadlockError), {
+            retries: 1,
+            retryDelay: 1,
+          })
+        ).rejects.toThrow("Deadlock");
+
+        expect(attempts).toBe(2);
+        expect(await findScore("z23")).toBe(3);
+      });
+
+      it("should not retry the callback on other errors", async () => {
+        let attempts = 0;
+
+        await expect(
+          withTransaction(conn, async (trx) => {
+            attempts += 1;
+            await updateAll(
+              { score: 35 },
+              { conn: trx, tableName: TABLE, where: { id: 3 } }
+            );
+
+            throw new Error("Failed");
+          })
+        ).rejects.toThrow("Failed");
+        expect(attempts).toBe(1);
+      });
+
+      it("should restore the rows before retrying the callback", async () => {
+        const row = await find({
+          conn,
+          table: kansenDefinition,
+          versionCol: "version",
+          where: { key: "z23" },
+        });
+        row.set("name", "Z23 (Retrofit)");
+
+        let attempts = 0;
+        await withTransaction(
+          conn,
+          async () => {
+            attempts += 1;
+            await row.save();
+            await row.setColumns({ score: row.getColumn("score") - 10 });
+
+            if (attempts < 2) {
+              throw Object.assign(new Error("Deadlock"), {
+                code: "ER_LOCK_DEADLOCK",
+              });
+            }
+          },
+          { retryDelay: 1, rows: [row] }
+        );
+
+        expect(attempts).toBe(2);
+        expect(row.getColumn("score")).toBe(20);
+        expect(row.getColumn("version")).toBe(2);
+        expect(row.isDirty).toBe(false);
+
+        const reloaded = await find({
+          conn,
+          table: kansenDefinition,
+          where: { key: "z23" },
+        });
+        expect(
+          reloaded.toObject({ pick: ["name", "score", "version"] })
+        ).toEqual({ name: "Z23 (Retrofit)", score: 20, version: 2 });
+      });
+
+      it("should restore the rows if the callback rejects", async () => {
+        const row = await find({
+          conn,
+          table: kansenDefinition,
+          where: { key: "z23" },
+        });
+
+        await expect(
+          withTransaction(
+            conn,
+            async () => {
+              await row.setColumns({ score: 35 });
+              throw new Error("Rollback");
+            },
+            { rows: [row] }
+          )
+        ).rejects.toThrow("Rollback");
+
+        expect(row.getColumn("score")).toBe(30);
+      });
+
+      it("should set the connection of rows in the callback", async () => {
+        const row = await find({
+          conn,
+          table: kansenDefinition,
+          where: { key: "z23" },
+        });
+
+        await withTransaction(
+          conn,
+          async (trx) => {
+            expect(row.connection).toBe(trx);
+            await row.setColumns({ score: 35 });
+          },
+          { rows: [row] }
+        );
+
+        expect(row.connection).toBe(conn);
+        expect(await findScore("z23")).toBe(35);
+      });
+    });
+
+    describe("lock", () => {
+      const isMysql = (conn.client as Knex.Client).dialect === "mysql";
+
+      it("findAll should lock rows in a transaction", async () => {
+        let keys: string[] = [];
+        const queries = await captureQueries(() =>
+          withTransaction(conn, async (trx) => {
+            const rows = await findAll({
+              conn: trx,
+              table: kansenDefinition,
+              where: { score: { gte: 45 } },
+              lock: "update",
+              skipLocked: true,
+            });
+            keys = rows.map((row) => row.getColumn("key"));
+          })
+        );
+
+        expect(keys).toEqual(["odin", "friedrich_der_grosse"]);
+        expect(
+          queries.some((sql) => sql.endsWith("for update skip locked"))
+        ).toBe(isMysql);
+      });
+
+      it("row.lock should re-select the row with lock", async () => {
+        const row = await find({
+          conn,
+          table: kansenDefinition,
+          where: { key: "z23" },
+        });
+        await conn(TABLE).where({ id: 3 }).update({ score: 35 });
+
+        const queries = await captureQueries(() =>
+          withTransaction(
+            conn,
+            async () => {
+              await row.lock({ mode: "share", noWait: true });
+            },
+            { rows: [row] }
+          )
+        );
+
+        expect(row.getColumn("score")).toBe(35);
+        expect(
+          queries.some((sql) => sql.endsWith("lock in share mode nowait"))
+        ).toBe(isMysql);
+      });
+
+      it("should throw error if the connection is not a transaction", async () => {
+        const row = await find({
+          conn,
+          table: kansenDefinition,
+          where: { key: "z23" },
+        });
+
+        await expect(row.lock()).rejects.toThrow(
+          "Rows of table kansen can only be locked in a transaction"
+        );
+        await expect(
+          findAll({ conn, tableName: TABLE, lock: "share" })
+        ).rejects.toThrow(
+          "Rows of table kansen can only be locked in a transaction"
+        );
+      });
+    });
+
+    describe("errors", () => {
+      const isMysql = (conn.client as Knex.Client).dialect === "mysql";
+
+      it("should throw ColumnNotFoundError and RowNotFoundError", async () => {
+        const row = await find({
+          conn,
+          tableName: TABLE,
+          where: { key: "odin" },
+        });
+
+        await expect(row.setColumns({ status: "active" })).rejects.toThrow(
+          new ColumnNotFoundError({ tableName: TABLE, column: "status" })
+        );
+
+        await row.deletePermanently();
+
+        const error = await row.reload().catch((reason: unknown) => reason);
+        expect(error).toBeInstanceOf(RowNotFoundError);
+        expect(error).toMatchObject({
+          tableName: TABLE,
+          primaryKey: { id: 5 },
+        });
+      });
+
+      it("should map unique violations from insert and update", async () => {
+        const insertError = await insert(
+          TABLE,
+          { key: "z23", name: "Z23" },
+          { conn }
+        ).catch((reason: unknown) => reason);
+
+        expect(insertError).toBeInstanceOf(UniqueViolationError);
+        expect(insertError).toMatchObject({
+          tableName: TABLE,
+          columns: isMysql ? [] : ["key"],
+          constraint: isMysql ? "kansen_key_unique" : null,
+        });
+
+        const row = await find({ conn, tableName: TABLE, where: { id: 4 } });
+        await expect(row.setColumns({ key: "z23" })).rejects.toBeInstanceOf(
+          UniqueViolationError
+        );
+        await expect(
+          updateAll(
+            { key: "z23" },
+            { conn, tableName: TABLE, where: { id: 5 } }
+          )
+        ).rejects.toBeInstanceOf(UniqueViolationError);
+      });
+    });
+  });
+
+  describe("table definition", () => {
+    it("findAll should return typed rows", async () => {
+      const rows = await findAll({
+        conn: conn,
+        table: kansenDefinition,
+        where() {
+          void this.where("score", ">=", 40);
+        },
+      });
+
+      const names: string[] = rows.map((row) => row.getColumn("name"));
+      const ids: number[] = rows.map((row) => row.id);
+
+      expect(names).toEqual(["Prinz Eugen", "Odin", "Friedrich der Große"]);
+      expect(ids).toEqual([4, 5, 6]);
+
+      // @ts-expect-error misspelled column
+      expect(() => rows[0].getColumn("nmae")).toThrow(
+        "Column 'nmae' does not exist for table kansen"
+      );
+    });
+
+    it("find should return a typed row", async () => {
+      const row = await find({
+        conn: conn,
+        table: kansenDefinition,
+        where() {
+          void this.where({ key: "odin" });
+        },
+      });
+
+      await row.setColumns({ name: "KMS Odin", score: 50 });
+
+      // @ts-expect-error misspelled column
+      await expect(row.setColumns({ nmae: "Odin" })).rejects.toThrow(
+        "Column 'nmae' does not exist for table kansen"
+      );
+
+      const score: number = row.getColumn("score");
+      expect(score).toBe(50);
+    });
+
+    it("hiddenCols should be excluded from serialized rows", async () => {
+      const hiddenTable = defineTable<KansenSchema>()({
+        tableName: TABLE,
+        hiddenCols: ["score"],
+      });
+
+      const row = await find({
+        conn: conn,
+        table: hiddenTable,
+        where: { id: 3 },
+      });
+
+      expect(row.getColumn("score")).toBe(30);
+      expect(row.toObject({ pick: ["key", "score"] })).toEqual({ key: "z23" });
+      expect(JSON.parse(JSON.stringify(row))).not.toHaveProperty("score");
+    });
+
+    it("countAll should count rows", async () => {
+      const count = await countAll({
+        conn: conn,
+        table: kansenDefinition,
+        countBy: "id",
+      });
+
+      expect(count).toBe(6);
+    });
+
+    it("insert and insertAll should insert new rows", async () => {
+      const id = await insert(
+        kansenDefinition,
+        { key: "u_47", name: "U-47", score: 40 },
+        { conn: conn }
+      );
+
+      await insertAll(
+        kansenDefinition,
+        [
+          { key: "mainz", name: "Mainz", score: 45 },
+          { key: "roon", name: "Roon", score: 45 },
+        ],
+        { conn: conn }
+      );
+
+      const newRow = await find({
+        conn: conn,
+        table: kansenDefinition,
+        where() {
+          void this.where({ id });
+        },
+      });
+
+      expect(newRow.getColumn("name")).toBe("U-47");
+      expect(
+        await countAll({
+          conn: conn,
+          table: kansenDefinition,
+          where() {
+            void this.where({ score: 45 });
+          },
+        })
+      ).toBe(3);
+    });
+  });
+
+  describe("row", () => {
+    describe("setColumns", () => {
+      it("should update data both on row and on getConnection()", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "z23" });
+          },
+        });
+
+        await row.setColumns({
+          key: "z23_retrofit",
+          name: "Z23 (Retrofit)",
+          score: 40,
+        });
+
+        expect(row.getColumn("key")).toBe("z23_retrofit");
+        expect(row.getColumn("name")).toBe("Z23 (Retrofit)");
+        expect(row.getColumn("score")).toBe(40);
+
+        const updatedRow = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "z23_retrofit" });
+          },
+        });
+
+        expect(updatedRow.getColumn("name")).toBe("Z23 (Retrofit)");
+        expect(updatedRow.getColumn("score")).toBe(40);
+      });
+
+      it("should throw error if column does not exist", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where("key", "prinz_eugen");
+          },
+        });
+
+        await expect(row.setColumns({ status: "ok" })).rejects.toThrow(
+          `Column 'status' does not exist for table kansen`
+        );
+      });
+    });
+
+    describe("setColumn", () => {
+      it("should update data", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "odin" });
+          },
+        });
+
+        await row.setColumn("name", "KMS Odin");
+
+        expect(row.getColumn("name")).toBe("KMS Odin");
+
+        const updatedRow = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "odin" });
+          },
+        });
+
+        expect(updatedRow.getColumn("name")).toBe("KMS Odin");
+      });
+    });
+
+    describe("change tracking", () => {
+      it("save should update only the changed columns in one query", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "z23" });
+          },
+        });
+
+        row.set("name", "Z23 (Retrofit)");
+        row.set("score", 40);
+        row.set("key", "z23");
+
+        expect(row.isDirty).toBe(true);
+        expect(row.changes).toEqual({ name: "Z23 (Retrofit)", score: 40 });
+        expect(row.getColumn("name")).toBe("Z23");
+
+        const queries = await captureQueries(() => row.save());
+
+        expect(queries).toHaveLength(1);
+        expect(queries[0]).toMatch(
+          /^update .* set .name. = \?, .score. = \? where/
+        );
+        expect(row.isDirty).toBe(false);
+        expect(row.getColumn("name")).toBe("Z23 (Retrofit)");
+
+        const updatedRow = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "z23" });
+          },
+        });
+
+        expect(updatedRow.getColumn("name")).toBe("Z23 (Retrofit)");
+        expect(updatedRow.getColumn("score")).toBe(40);
+      });
+
+      it("revert should discard the changes", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "z23" });
+          },
+        });
+
+        row.set("name", "Z23 (Retrofit)");
+        row.revert();
+
+        expect(row.isDirty).toBe(false);
+        expect(row.changes).toEqual({});
+
+        await row.save();
+
+        const savedRow = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "z23" });
+          },
+        });
+
+        expect(savedRow.getColumn("name")).toBe("Z23");
+      });
+
+      it("set should throw error if column does not exist", () => {
+        const { row } = createTestRow();
+
+        expect(() => row.set("status", "ok")).toThrow(
+          "Column 'status' does not exist for table kansen"
+        );
+      });
+    });
+
+    describe("version column", () => {
+      async function findVersionedRow(): Promise<Row> {
+        return find({
+          conn: conn,
+          tableName: TABLE,
+          versionCol: "version",
+          where() {
+            void this.where({ key: "prinz_eugen" });
+          },
+        });
+      }
+
+      it("setColumns should increment the version", async () => {
+        const row = await findVersionedRow();
+
+        const data = { score: 50 };
+        await row.setColumns(data);
+        expect(row.getColumn("version")).toBe(1);
+        expect(data).toEqual({ score: 50 });
+
+        await row.setColumns({ score: 60 });
+        expect(row.getColumn("version")).toBe(2);
+
+        const updatedRow = await findVersionedRow();
+        expect(updatedRow.getColumn("version")).toBe(2);
+        expect(updatedRow.getColumn("score")).toBe(60);
+      });
+
+      it("should throw StaleRowError if the row has been modified", async () => {
+        const [row, staleRow] = await Promise.all([
+          findVersionedRow(),
+          findVersionedRow(),
+        ]);
+
+        await row.setColumns({ score: 50 });
+
+        await expect(staleRow.setColumns({ score: 60 })).rejects.toThrow(
+          StaleRowError
+        );
+        await expect(staleRow.delete()).rejects.toThrow(StaleRowError);
+        await expect(staleRow.restore()).rejects.toThrow(StaleRowError);
+        await expect(staleRow.deletePermanently()).rejects.toThrow(
+          StaleRowError
+        );
+
+        expect(staleRow.getColumn("score")).toBe(40);
+
+        const updatedRow = await findVersionedRow();
+        expect(updatedRow.getColumn("score")).toBe(50);
+      });
+
+      it("deletePermanently should delete the row if the version matches", async () => {
+        const row = await findVersionedRow();
+
+        await row.deletePermanently();
+
+        expect(await findVersionedRow()).toBeNull();
+      });
+    });
+
+    describe("reload", () => {
+      it("should replace row data with the current data", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "odin" });
+          },
+        });
+
+        await conn(TABLE).where({ key: "odin" }).update({ score: 50 });
+        expect(row.getColumn("score")).toBe(45);
+
+        await row.reload();
+        expect(row.getColumn("score")).toBe(50);
+      });
+
+      it("should throw error if row does not exist", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "odin" });
+          },
+        });
+
+        await row.deletePermanently();
+
+        await expect(row.reload()).rejects.toThrow(
+          `Row {"id":5} does not exist for table kansen`
+        );
+      });
+
+      it("should refresh row data after update if refresh is true", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "odin" });
+          },
+        });
+
+        await row.setColumns(
+          { score: conn.raw("?? + 5", ["score"]) },
+          { refresh: true }
+        );
+        expect(row.getColumn("score")).toBe(50);
+
+        await row.delete({ refresh: true });
+
+        const deletedRow = await find({
+          conn: conn,
+          tableName: TABLE,
+          includeDeleted: true,
+          where() {
+            void this.where({ key: "odin" });
+          },
+        });
+
+        expect(row.timeDeleted).toEqual(deletedRow.timeDeleted);
+
+        await row.restore({ refresh: true });
+        expect(row.isDeleted).toBe(false);
+      });
+    });
+
+    describe("soft delete", () => {
+      it("delete should set the time deleted timestamp of the row", async () => {
+        const row = await find({
+          conn: conn,
+          table: kansenDefinition,
+          where: { key: "karlsruhe" },
+        });
+
+        await row.delete();
+
+        expect(row.timeDeleted).toBeInstanceOf(Date);
+        expect(Number.isNaN(row.timeDeleted.getTime())).toBe(false);
+        expect(
+          (JSON.parse(JSON.stringify(row)) as KansenSchema).time_deleted
+        ).toBe(row.timeDeleted.toISOString());
+      });
+
+      it("delete should mark row as deleted and restore should mark row as not deleted", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "karlsruhe" });
+          },
+        });
+
+        await row.delete();
+
+        const deletedRow = await find({
+          conn: conn,
+          tableName: TABLE,
+          includeDeleted: true,
+          where() {
+            void this.where({ key: "karlsruhe" });
+          },
+        });
+
+        expect(deletedRow.isDeleted).toBe(true);
+
+        await deletedRow.restore();
+
+        const restoredRow = await find({
+          conn: conn,
+          tableName: TABLE,
+          includeDeleted: true,
+          where() {
+            void this.where({ key: "karlsruhe" });
+          },
+        });
+
+        expect(restoredRow.isDeleted).toBe(false);
+      });
+
+      it("should not retrieve deleted rows if excludeDeleted is true", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "karlsruhe" });
+          },
+        });
+
+        await row.delete();
+
+        expect(
+          await find({
+            conn: conn,
+            tableName: TABLE,
             where() {
               void this.where({ key: "karlsruhe" });
             },
           })
-        ).toBeNull();
+        ).toBeNull();
+      });
+    });
+
+    describe("hard delete", () => {
+      it("delete the row from table", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ key: "z23" });
+          },
+        });
+
+        await row.deletePermanently();
+
+        expect(
+          await find({
+            conn: conn,
+            tableName: TABLE,
+            where() {
+              void this.where({ key: "z23" });
+            },
+          })
+        ).toBeNull();
+      });
+    });
+
+    describe("duplicate", () => {
+      it("should insert a copy of the row with overrides", async () => {
+        const row = await find({
+          conn: conn,
+          table: kansenDefinition,
+          where: { key: "z23" },
+        });
+
+        const copy = await row.duplicate({
+          overrides: { key: "z23_draft", name: "Z23 (Draft)" },
+        });
+
+        expect(copy.id).toBe(7);
+        expect(copy.getColumn("key")).toBe("z23_draft");
+        expect(copy.getColumn("name")).toBe("Z23 (Draft)");
+        expect(copy.getColumn("score")).toBe(30);
+        expect(row.id).toBe(3);
+        expect(row.getColumn("name")).toBe("Z23");
+      });
+
+      it("should not copy omitted, primary key and timestamp columns", async () => {
+        const row = await find({
+          conn: conn,
+          table: kansenDefinition,
+          where: { key: "odin" },
+        });
+        await row.delete();
+
+        const copy = await row.duplicate({
+          omit: ["score"],
+          overrides: { key: "odin_copy" },
+        });
+
+        expect(copy.id).not.toBe(row.id);
+        expect(copy.getColumn("name")).toBe("Odin");
+        expect(copy.getColumn("score")).toBeNull();
+        expect(copy.isDeleted).toBe(false);
+      });
+
+      it("should not copy the version column", async () => {
+        const row = await find({
+          conn: conn,
+          tableName: TABLE,
+          versionCol: "version",
+          where: { key: "z23" },
+        });
+        await row.setColumns({ score: 35 });
+        expect(row.getColumn("version")).toBe(1);
+
+        const copy = await row.duplicate({ overrides: { key: "z23_copy" } });
+
+        expect(copy.getColumn("version")).toBe(0);
+        expect(copy.getColumn("score")).toBe(35);
+
+        await copy.setColumns({ score: 40 });
+        expect(copy.getColumn("version")).toBe(1);
+      });
+    });
+
+    describe("timestamps", () => {
+      const clockTable = defineTable<KansenSchema>()({
+        tableName: TABLE,
+        timestamps: true,
+        clock: () => new Date("2020-01-01T00:00:00Z"),
+      });
+      const getTime = (value: Date | null): number =>
+        value === null ? NaN : new Date(value).getTime();
+      const time = new Date("2020-01-01T00:00:00Z").getTime();
+
+      it("insertRow should set the created and updated timestamps", async () => {
+        const row = await insertRow(
+          clockTable,
+          { key: "u_47", name: "U-47", score: 40 },
+          { conn }
+        );
+
+        expect(getTime(row.getColumn("time_created"))).toBe(time);
+        expect(getTime(row.getColumn("time_updated"))).toBe(time);
+      });
+
+      it("insert should not replace the provided timestamps", async () => {
+        const timeCreated = new Date("2019-06-01T00:00:00Z");
+        const id = await insert(
+          clockTable,
+          { key: "u_47", name: "U-47", time_created: timeCreated },
+          { conn }
+        );
+
+        const row = await find({ conn, table: clockTable, where: { id } });
+
+        expect(getTime(row.getColumn("time_created"))).toBe(
+          timeCreated.getTime()
+        );
+        expect(getTime(row.getColumn("time_updated"))).toBe(time);
+      });
+
+      it("setColumns should set the updated timestamp", async () => {
+        const row = await find({
+          conn,
+          table: clockTable,
+          where: { key: "z23" },
+        });
+
+        await row.setColumns({ score: 35 });
+
+        const updatedRow = await find({
+          conn,
+          table: kansenDefinition,
+          where: { key: "z23" },
+        });
+
+        expect(getTime(row.getColumn("time_updated"))).toBe(time);
+        expect(getTime(updatedRow.getColumn("time_updated"))).toBe(time);
+        expect(getTime(updatedRow.getColumn("time_created"))).not.toBe(time);
+      });
+
+      it("setColumns should read the database timestamp without clock", async () => {
+        const row = await find({
+          conn,
+          table: kansenDefinition,
+          timestamps: true,
+          where: { key: "z23" },
+        });
+
+        await row.setColumns({ score: 35 });
+
+        expect(row.getColumn("time_updated")).not.toHaveProperty("toSQL");
+        expect(Number.isNaN(row.timeUpdated.getTime())).toBe(false);
+      });
+
+      it("delete and softDeleteAll should use the clock", async () => {
+        const row = await find({
+          conn,
+          table: clockTable,
+          where: { key: "z23" },
+        });
+
+        await row.delete();
+        await softDeleteAll({ conn, table: clockTable, where: { id: 4 } });
+
+        const deletedRows = await findAll({
+          conn,
+          table: kansenDefinition,
+          includeDeleted: true,
+          where: { id: { in: [3, 4] } },
+        });
+
+        expect(
+          deletedRows.map((deletedRow) => getTime(deletedRow.timeDeleted))
+        ).toEqual([time, time]);
+      });
+
+      it("updateAll should set the updated timestamp", async () => {
+        await updateAll({ score: 0 }, { conn, table: clockTable });
+
+        const rows = await findAll({ conn, table: kansenDefinition });
+
+        expect(
+          rows.map((row) => getTime(row.getColumn("time_updated")))
+        ).toEqual(rows.map(() => time));
+      });
+
+      it("upsert should not update the created timestamp", async () => {
+        const [updated, inserted] = await upsertAll(
+          clockTable,
+          [
+            { key: "z23", name: "Z23", score: 35 },
+            { key: "u_47", name: "U-47", score: 40 },
+          ],
+          { conn, conflictCols: ["key"] }
+        );
+
+        expect(
+          getTime(updated.row?.getColumn("time_created") ?? null)
+        ).not.toBe(time);
+        expect(getTime(updated.row?.getColumn("time_updated") ?? null)).toBe(
+          time
+        );
+        expect(getTime(inserted.row?.getColumn("time_created") ?? null)).toBe(
+          time
+        );
+      });
+    });
+
+    describe("hooks", () => {
+      it("beforeInsert should change the inserted data", async () => {
+        const hooksTable = defineTable<KansenSchema>()({
+          tableName: TABLE,
+          hooks: {
+            beforeInsert: ({ data }) => ({ ...data, name: "U-47" }),
+          },
+        });
+
+        const id = await insert(hooksTable, { key: "u_47" }, { conn });
+        const row = await find({
+          conn,
+          table: kansenDefinition,
+          where: { id },
+        });
+
+        expect(row.getColumn("name")).toBe("U-47");
+      });
+
+      it("afterInsert should receive the inserted rows", async () => {
+        const afterInsert = jest.fn();
+        const hooksTable = defineTable<KansenSchema>()({
+          tableName: TABLE,
+          hooks: { afterInsert },
+        });
+
+        const rows = await insertRows(
+          hooksTable,
+          [{ key: "u_47" }, { key: "u_81" }],
+          { conn }
+        );
+
+        expect(afterInsert).toHaveBeenCalledTimes(2);
+        expect(afterInsert).toHaveBeenNthCalledWith(1, {
+          conn,
+          tableName: TABLE,
+          data: { key: "u_47" },
+          row: rows[0],
+        });
+        expect(afterInsert).toHaveBeenNthCalledWith(2, {
+          conn,
+          tableName: TABLE,
+          data: { key: "u_81" },
+          row: rows[1],
+        });
+      });
+
+      it("before hooks should abort the operation by throwing", async () => {
+        const hooksTable = defineTable<KansenSchema>()({
+          tableName: TABLE,
+          hooks: {
+            beforeInsert() {
+              throw new Error("Insert is not allowed");
+            },
+            beforeUpdate() {
+              throw new Error("Update is not allowed");
+            },
+          },
+        });
+
+        await expect(
+          insertAll(hooksTable, [{ key: "u_47" }], { conn })
+        ).rejects.toThrow("Insert is not allowed");
+
+        const row = await find({ conn, table: hooksTable, where: { id: 3 } });
+        await expect(row.setColumns({ score: 0 })).rejects.toThrow(
+          "Update is not allowed"
+        );
+
+        expect(await countAll({ conn, tableName: TABLE })).toBe(6);
+        expect(
+          await countAll({ conn, tableName: TABLE, where: { score: 30 } })
+        ).toBe(1);
+      });
+
+      it("beforeUpdate and afterUpdate should be called with the changed data", async () => {
+        const afterUpdate = jest.fn();
+        const hooksTable = defineTable<KansenSchema>()({
+          tableName: TABLE,
+          hooks: {
+            beforeUpdate: ({ data }) => ({ ...data, name: "Z23 (Retrofit)" }),
+            afterUpdate,
+          },
+        });
+
+        const row = await find({ conn, table: hooksTable, where: { id: 3 } });
+        await row.setColumns({ score: 35 });
+
+        expect(row.getColumn("name")).toBe("Z23 (Retrofit)");
+        expect(afterUpdate).toHaveBeenCalledWith({
+          conn,
+          tableName: TABLE,
+          row,
+          data: { score: 35, name: "Z23 (Retrofit)" },
+        });
+      });
+
+      it("save should clear staged changes replaced by beforeUpdate", async () => {
+        const hooksTable = defineTable<KansenSchema>()({
+          tableName: TABLE,
+          hooks: {
+            beforeUpdate: ({ data }) =>
+              "name" in data ? { name: String(data.name).trim() } : data,
+          },
+        });
+
+        const row = await find({ conn, table: hooksTable, where: { id: 3 } });
+        row.set("name", " Z23 (Retrofit) ");
+        row.set("score", 35);
+        await row.save();
+
+        expect(row.isDirty).toBe(false);
+        expect(row.getColumn("name")).toBe("Z23 (Retrofit)");
+        expect(row.getColumn("score")).toBe(30);
+      });
+
+      it("delete hooks should be called from delete and deletePermanently", async () => {
+        const beforeDelete = jest.fn();
+        const afterDelete = jest.fn();
+        const beforeUpdate = jest.fn();
+        const hooksTable = defineTable<KansenSchema>()({
+          tableName: TABLE,
+          hooks: { beforeDelete, afterDelete, beforeUpdate },
+        });
+
+        const row = await find({ conn, table: hooksTable, where: { id: 3 } });
+        await row.delete();
+        await row.deletePermanently();
+
+        expect(beforeDelete.mock.calls).toEqual([
+          [{ conn, tableName: TABLE, row, permanent: false }],
+          [{ conn, tableName: TABLE, row, permanent: true }],
+        ]);
+        expect(afterDelete).toHaveBeenCalledTimes(2);
+        expect(beforeUpdate).not.toHaveBeenCalled();
+      });
+
+      it("afterFind should receive the found rows", async () => {
+        const afterFind = jest.fn();
+        const hooksTable = defineTable<KansenSchema>()({
+          tableName: TABLE,
+          hooks: { afterFind },
+        });
+
+        const rows = await findAll({
+          conn,
+          table: hooksTable,
+          where: { score: { gt: 40 } },
+        });
+
+        expect(rows).toHaveLength(2);
+        expect(afterFind).toHaveBeenCalledWith({
+          conn,
+          tableName: TABLE,
+          rows,
+        });
+      });
+
+      it("afterFind should be called for each batch of streamAll", async () => {
+        const afterFind = jest.fn();
+        const hooksTable = defineTable<KansenSchema>()({
+          tableName: TABLE,
+          hooks: { afterFind },
+        });
+
+        const ids: number[] = [];
+        for await (const row of streamAll({
+          conn,
+          table: hooksTable,
+          batchSize: 4,
+          orderBy: ["id"],
+        })) {
+          ids.push(row.id);
+        }
+
+        expect(ids).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(
+          afterFind.mock.calls.map(
+            ([{ rows }]: [{ rows: Row[] }]) => rows.length
+          )
+        ).toEqual([4, 2]);
+      });
+    });
+
+    describe("audit log", () => {
+      const auditTable = defineTable<KansenSchema>()({
+        tableName: TABLE,
+        audit: { tableName: AUDIT_TABLE, actor: "admiral" },
+        clock: () => new Date("2020-01-01T00:00:00Z"),
+      });
+      const audit = { tableName: AUDIT_TABLE };
+
+      it("should roll back the row write if the audit entry fails", async () => {
+        const brokenAuditTable = defineTable<KansenSchema>()({
+          tableName: TABLE,
+          audit: { tableName: "missing_audit_log" },
+        });
+        const row = await find({
+          conn,
+          table: brokenAuditTable,
+          where: { id: 3 },
+        });
+
+        await expect(row.setColumns({ score: 35 })).rejects.toThrow();
+        await expect(row.deletePermanently()).rejects.toThrow();
+
+        expect(row.getColumn("score")).toBe(30);
+        expect(row.connection).toBe(conn);
+
+        const storedRow = await find({
+          conn,
+          table: kansenDefinition,
+          where: { id: 3 },
+        });
+        expect(storedRow.getColumn("score")).toBe(30);
+      });
+
+      it("should record the changes from row methods", async () => {
+        const row = await find({ conn, table: auditTable, where: { id: 3 } });
+
+        await row.setColumns({ name: "Z23 (Retrofit)", score: 35 });
+        await row.delete();
+        await row.restore();
+        await row.deletePermanently();
+
+        const history = await findAuditHistory({
+          conn,
+          tableName: TABLE,
+          primaryKey: { id: 3 },
+          audit,
+        });
+        const time = new Date("2020-01-01T00:00:00Z").getTime();
+
+        expect(
+          history.map(({ operation, oldValues, newValues, actor }) => ({
+            operation,
+            oldValues,
+            newValues,
+            actor,
+          }))
+        ).toEqual([
+          {
+            operation: "update",
+            oldValues: { name: "Z23", score: 30 },
+            newValues: { name: "Z23 (Retrofit)", score: 35 },
+            actor: "admiral",
+          },
+          {
+            operation: "delete",
+            oldValues: { time_deleted: null },
+            newValues: { time_deleted: "2020-01-01T00:00:00.000Z" },
+            actor: "admiral",
+          },
+          {
+            operation: "restore",
+            oldValues: { time_deleted: "2020-01-01T00:00:00.000Z" },
+            newValues: { time_deleted: null },
+            actor: "admiral",
+          },
+          {
+            operation: "deletePermanently",
+            oldValues: expect.objectContaining({
+              id: 3,
+              key: "z23",
+              name: "Z23 (Retrofit)",
+            }),
+            newValues: null,
+            actor: "admiral",
+          },
+        ]);
+        expect(history[0]).toMatchObject({
+          tableName: TABLE,
+          primaryKey: { id: 3 },
+        });
+        expect(history[0].timeCreated.getTime()).toBe(time);
+      });
+
+      it("should record the inserted rows with their primary keys", async () => {
+        const id = await insert(auditTable, { key: "u_47" }, { conn });
+        await insertAll(auditTable, [{ key: "u_81" }, { key: "u_96" }], {
+          conn,
+        });
+
+        const entries = (await conn(AUDIT_TABLE).orderBy("id")) as {
+          primary_key: string;
+        }[];
+
+        expect(entries.map((entry) => entry.primary_key)).toEqual([
+          JSON.stringify({ id }),
+          JSON.stringify({ id: id + 1 }),
+          JSON.stringify({ id: id + 2 }),
+        ]);
+        expect(
+          await findAuditHistory({
+            conn,
+            tableName: TABLE,
+            primaryKey: { id: id + 1 },
+            audit,
+          })
+        ).toMatchObject([
+          {
+            operation: "insert",
+            oldValues: null,
+            newValues: { key: "u_81" },
+          },
+        ]);
+      });
+
+      it("should roll back the audit entries with the transaction", async () => {
+        await expect(
+          conn.transaction(async (trx) => {
+            const row = await find({
+              conn: trx,
+              table: auditTable,
+              where: { id: 3 },
+            });
+            await row.setColumns({ score: 35 });
+
+            throw new Error("Rollback");
+          })
+        ).rejects.toThrow("Rollback");
+
+        expect(await conn(AUDIT_TABLE)).toEqual([]);
       });
     });
 
-    describe("hard delete", () => {
-      it("delete the row from table", async () => {
+    describe("codecs", () => {
+      interface CodecSchema {
+        id: number;
+        time_created: Date;
+        time_updated: Date;
+        time_deleted: Date | null;
+        key: "z23" | "u_47";
+        name: { title: string };
+        score: string;
+        version: boolean;
+      }
+
+      const codecTable = defineTable<CodecSchema>()({
+        tableName: TABLE,
+        codecs: {
+          key: enumCodec(["z23", "u_47"] as const),
+          name: jsonCodec<{ title: string }>(),
+          score: bigintCodec(),
+          version: booleanCodec(),
+        },
+      });
+
+      it("should decode the row data", async () => {
+        await conn(TABLE).where({ id: 3 }).update({ name: '{"title":"Z23"}' });
+
+        const row = await find({ conn, table: codecTable, where: { id: 3 } });
+
+        expect(row.getColumn("key")).toBe("z23");
+        expect(row.getColumn("name")).toEqual({ title: "Z23" });
+        expect(row.getColumn("score")).toBe("30");
+        expect(row.getColumn("version")).toBe(false);
+      });
+
+      it("should encode the values in setColumns and insertRow", async () => {
+        await conn(TABLE).where({ id: 3 }).update({ name: "{}" });
+        const row = await find({ conn, table: codecTable, where: { id: 3 } });
+
+        await row.setColumns({
+          name: { title: "Z23 (Retrofit)" },
+          version: true,
+        });
+        const insertedRow = await insertRow(
+          codecTable,
+          { key: "u_47", name: { title: "U-47" }, score: "40", version: true },
+          { conn }
+        );
+
+        expect(row.getColumn("name")).toEqual({ title: "Z23 (Retrofit)" });
+        expect(insertedRow.getColumn("name")).toEqual({ title: "U-47" });
+        expect(insertedRow.getColumn("version")).toBe(true);
+        expect(
+          await conn(TABLE)
+            .select("name", "score", "version")
+            .whereIn("id", [3, insertedRow.id])
+            .orderBy("id")
+        ).toEqual([
+          { name: '{"title":"Z23 (Retrofit)"}', score: 30, version: 1 },
+          { name: '{"title":"U-47"}', score: 40, version: 1 },
+        ]);
+      });
+
+      it("enumCodec should throw error for unknown values", async () => {
+        await expect(
+          find({ conn, table: codecTable, where: { id: 1 } })
+        ).rejects.toThrow(
+          "Invalid enum value 'karlsruhe', expected one of 'z23', 'u_47'"
+        );
+      });
+
+      it("dateCodec should decode timestamps from every driver", () => {
+        const date = new Date("2020-01-01T00:00:00Z");
+        const codec = dateCodec();
+
+        expect(codec.decode(date)).toBe(date);
+        expect(codec.decode(date.getTime())).toEqual(date);
+        expect(codec.decode("2020-01-01 00:00:00")).toEqual(date);
+        expect(codec.decode("2020-01-01T00:00:00.000Z")).toEqual(date);
+      });
+
+      it("timeCreated should return a Date object", async () => {
+        const row = await insertRow(
+          TABLE,
+          { key: "u_47" },
+          { conn, timestamps: true, clock: () => new Date("2020-01-01") }
+        );
+
+        expect(row.timeCreated).toEqual(new Date("2020-01-01"));
+        expect(row.timeDeleted).toBeNull();
+      });
+    });
+
+    describe("relations", () => {
+      interface SkinSchema {
+        id: number;
+        kansen_id: number;
+        name: string;
+        time_deleted: Date | null;
+      }
+
+      const skinTable: TableDefinition<SkinSchema> = defineTable<SkinSchema>()({
+        tableName: "skin",
+        relations: {
+          kansen: belongsTo(() => relationTable, { foreignKey: "kansen_id" }),
+        },
+      });
+      const relationTable = defineTable<KansenSchema>()({
+        tableName: TABLE,
+        relations: {
+          skin: hasOne(skinTable, { foreignKey: "kansen_id" }),
+          skins: hasMany(skinTable, { foreignKey: "kansen_id" }),
+          tags: belongsToMany("tag", {
+            through: "kansen_tag",
+            foreignKey: "kansen_id",
+            otherKey: "tag_id",
+          }),
+        },
+      });
+
+      beforeEach(async () => {
+        await conn("skin").insert([
+          { id: 1, kansen_id: 3, name: "Z23 Summer", time_deleted: null },
+          { id: 2, kansen_id: 3, name: "Z23 Winter", time_deleted: null },
+          {
+            id: 3,
+            kansen_id: 4,
+            name: "Prinz Eugen Party",
+            time_deleted: null,
+          },
+          {
+            id: 4,
+            kansen_id: 4,
+            name: "Prinz Eugen Old",
+            time_deleted: new Date(),
+          },
+        ]);
+        await conn("tag").insert([
+          { id: 1, name: "destroyer", time_deleted: null },
+          { id: 2, name: "cruiser", time_deleted: null },
+          { id: 3, name: "iron blood", time_deleted: null },
+        ]);
+        await conn("kansen_tag").insert([
+          { kansen_id: 3, tag_id: 1 },
+          { kansen_id: 3, tag_id: 3 },
+          { kansen_id: 4, tag_id: 2 },
+          { kansen_id: 4, tag_id: 3 },
+        ]);
+      });
+
+      const getNames = (rows: Row<number | string>[]): unknown[] =>
+        rows.map((row) => row.getColumn("name"));
+
+      it("load should load the relation of a row", async () => {
+        const row = await find({
+          conn,
+          table: relationTable,
+          where: { id: 3 },
+        });
+
+        const skins = await row.load<Row[]>("skins");
+        const skin = await row.load<Row | null>("skin");
+
+        expect(getNames(skins)).toEqual(["Z23 Summer", "Z23 Winter"]);
+        expect(skin?.getColumn("name")).toBe("Z23 Summer");
+        expect(row.getRelation("skins")).toBe(skins);
+      });
+
+      it("include should load relations with one query per relation", async () => {
+        let rows: Row<number, KansenSchema>[] = [];
+        const queries = await captureQueries(async () => {
+          rows = await findAll({
+            conn,
+            table: relationTable,
+            where: { id: { in: [1, 3, 4] } },
+            include: ["skins", "tags"],
+          });
+        });
+
+        expect(queries).toHaveLength(3);
+        expect(
+          rows.map((row) => getNames(row.getRelation<Row[]>("skins")))
+        ).toEqual([[], ["Z23 Summer", "Z23 Winter"], ["Prinz Eugen Party"]]);
+        expect(
+          rows.map((row) => getNames(row.getRelation<Row[]>("tags")))
+        ).toEqual([[], ["destroyer", "iron blood"], ["cruiser", "iron blood"]]);
+      });
+
+      it("belongsTo should load the referred row", async () => {
+        const skins = await findAll({
+          conn,
+          table: skinTable,
+          include: ["kansen"],
+        });
+
+        expect(
+          skins.map((skin) =>
+            skin.getRelation<Row | null>("kansen")?.getColumn("key")
+          )
+        ).toEqual(["z23", "z23", "prinz_eugen"]);
+      });
+
+      it("should follow includeDeleted for related rows", async () => {
+        const [row] = await findAll({
+          conn,
+          table: relationTable,
+          where: { id: 4 },
+          includeDeleted: true,
+          include: ["skins"],
+        });
+
+        expect(getNames(row.getRelation<Row[]>("skins"))).toEqual([
+          "Prinz Eugen Party",
+          "Prinz Eugen Old",
+        ]);
+      });
+
+      it("should throw error for unknown or not loaded relations", async () => {
+        const row = await find({
+          conn,
+          table: relationTable,
+          where: { id: 3 },
+        });
+
+        await expect(row.load("fleet")).rejects.toThrow(
+          "Relation 'fleet' does not exist for table kansen"
+        );
+        expect(() => row.getRelation("skins")).toThrow(
+          "Relation 'skins' is not loaded for table kansen"
+        );
+      });
+    });
+
+    describe("row options", () => {
+      it("findAll should pass row options to rows", async () => {
         const row = await find({
           conn: conn,
           tableName: TABLE,
+          idCol: "key",
           where() {
-            void this.where({ key: "z23" });
+            void this.where({ key: "leipzig" });
           },
         });
 
-        await row.deletePermanently();
+        expect(row.id).toBe("leipzig");
+        expect(row.primaryKey).toEqual({ key: "leipzig" });
 
-        expect(
-          await find({
+        await row.setColumns({ score: 25 });
+
+        const updatedRow = await find({
+          conn: conn,
+          tableName: TABLE,
+          where() {
+            void this.where({ id: 2 });
+          },
+        });
+
+        expect(updatedRow.getColumn("score")).toBe(25);
+      });
+
+      it("should use timeDeletedCol for excluding deleted rows", async () => {
+        const [rows, count] = await Promise.all([
+          findAll({
             conn: conn,
             tableName: TABLE,
-            where() {
-              void this.where({ key: "z23" });
-            },
-          })
-        ).toBeNull();
+            timeDeletedCol: "score",
+          }),
+          countAll({
+            conn: conn,
+            tableName: TABLE,
+            timeDeletedCol: "score",
+          }),
+        ]);
+
+        expect(rows).toEqual([]);
+        expect(count).toBe(0);
+      });
+
+      it("countAll should count by idCol", async () => {
+        const count = await countAll({
+          conn: conn,
+          tableName: TABLE,
+          idCol: "key",
+        });
+
+        expect(count).toBe(6);
       });
     });
 
@@ -584,6 +2929,157 @@ describe.each([
     });
   });
 
+  describe("toObject", () => {
+    it("should return only column data", () => {
+      const { row } = createTestRow();
+
+      expect(row.toObject()).toEqual({
+        id: 252,
+        time_created: new Date("1986-12-28"),
+        time_updated: new Date("1988-12-08"),
+        time_deleted: new Date("1997-07-22"),
+        key: "graf_zeppelin",
+        name: "Graf Zeppelin",
+        score: 40,
+      });
+    });
+
+    it("should support pick, omit and rename", () => {
+      const { row } = createTestRow();
+
+      expect(
+        row.toObject({
+          pick: ["id", "key", "name", "score"],
+          omit: ["score"],
+          rename: { key: "slug" },
+        })
+      ).toEqual({ id: 252, slug: "graf_zeppelin", name: "Graf Zeppelin" });
+    });
+
+    it("should throw error if picked column does not exist", () => {
+      const { row } = createTestRow();
+      expect(() => row.toObject({ pick: ["status"] })).toThrow(
+        "Column 'status' does not exist for table kansen"
+      );
+    });
+
+    it("toJSON should serialize column data and exclude hiddenCols", () => {
+      const conn = knex<any, Record<string, any>[]>({ client: "mysql2" });
+      const row = new Row({
+        conn,
+        tableName: TABLE,
+        hiddenCols: ["password_hash"],
+        rowData: {
+          id: 1,
+          time_created: "2020-01-01 00:00:00",
+          name: "Z23",
+          password_hash: "secret",
+        },
+      });
+
+      expect(JSON.parse(JSON.stringify(row))).toEqual({
+        id: 1,
+        time_created: "2020-01-01T00:00:00.000Z",
+        name: "Z23",
+      });
+    });
+  });
+
+  describe("toDatabaseError", () => {
+    const driverError = (code: string, message: string): Error =>
+      Object.assign(new Error(message), { code });
+
+    it("should map mysql2 errors", () => {
+      expect(
+        toDatabaseError(
+          driverError(
+            "ER_DUP_ENTRY",
+            "Duplicate entry 'z23' for key 'kansen.kansen_key_unique'"
+          ),
+          TABLE
+        )
+      ).toMatchObject({
+        name: "UniqueViolationError",
+        message: "Duplicate entry 'z23' for key 'kansen.kansen_key_unique'",
+        tableName: TABLE,
+        code: "ER_DUP_ENTRY",
+        constraint: "kansen_key_unique",
+      });
+
+      expect(
+        toDatabaseError(
+          driverError(
+            "ER_NO_REFERENCED_ROW_2",
+            "Cannot add or update a child row: a foreign key constraint fails (`db`.`skin`, CONSTRAINT `skin_kansen_id_foreign` FOREIGN KEY (`kansen_id`) REFERENCES `kansen` (`id`))"
+          ),
+          "skin"
+        )
+      ).toMatchObject({
+        name: "ForeignKeyViolationError",
+        columns: ["kansen_id"],
+        constraint: "skin_kansen_id_foreign",
+      });
+
+      expect(
+        toDatabaseError(
+          driverError("ER_BAD_NULL_ERROR", "Column 'name' cannot be null"),
+          TABLE
+        )
+      ).toMatchObject({ name: "NotNullViolationError", columns: ["name"] });
+
+      expect(
+        toDatabaseError(
+          driverError(
+            "ER_LOCK_DEADLOCK",
+            "Deadlock found when trying to get lock"
+          ),
+          TABLE
+        )
+      ).toBeInstanceOf(DeadlockError);
+    });
+
+    it("should map sqlite3 and better-sqlite3 errors", () => {
+      expect(
+        toDatabaseError(
+          driverError(
+            "SQLITE_CONSTRAINT",
+            "SQLITE_CONSTRAINT: UNIQUE constraint failed: kansen_tag.kansen_id, kansen_tag.tag_id"
+          ),
+          "kansen_tag"
+        )
+      ).toMatchObject({
+        name: "UniqueViolationError",
+        columns: ["kansen_id", "tag_id"],
+        constraint: null,
+      });
+
+      const notNullError = toDatabaseError(
+        driverError(
+          "SQLITE_CONSTRAINT_NOTNULL",
+          "NOT NULL constraint failed: kansen.name"
+        ),
+        TABLE
+      );
+      expect(notNullError).toBeInstanceOf(NotNullViolationError);
+      expect(notNullError).toMatchObject({ columns: ["name"] });
+
+      expect(
+        toDatabaseError(
+          driverError(
+            "SQLITE_CONSTRAINT_FOREIGNKEY",
+            "FOREIGN KEY constraint failed"
+          ),
+          "skin"
+        )
+      ).toBeInstanceOf(ForeignKeyViolationError);
+    });
+
+    it("should return other errors as is", () => {
+      const error = new Error("Connection lost");
+      expect(toDatabaseError(error, TABLE)).toBe(error);
+    });
+  });
+
   describe("connection", () => {
     it("get should return connection", () => {
       const { row, conn } = createTestRow();
@@ -0,0 +1,198 @@
+import { Connection, ConnectionOpts } from "./connection";
+import { RowData, RowOpts, RowValue, UpdateData } from "./row";
+import { now } from "./timestamp";
+import { isRaw, toDate } from "./codec";
+import { mapDatabaseError } from "./errors";
+
+/**
+ * The default name of audit log table.
+ */
+export const AUDIT_TABLE = "audit_log";
+
+/**
+ * The type of change recorded in an {@link AuditEntry}.
+ */
+export type AuditOperation =
+  | "insert"
+  | "update"
+  | "delete"
+  | "restore"
+  | "deletePermanently";
+
+/**
+ * The options for recording row changes into an audit log table.
+ *
+ * - `tableName`: the name of audit log table (default: {@link AUDIT_TABLE})
+ * - `actor`: the user or context that makes the changes, or a function that
+ *   returns it when each change is recorded (default: `null`)
+ *
+ * The changes are recorded from {@link insert}, {@link insertAll},
+ * {@link insertRow}, {@link insertRows} and the {@link Row} methods that write
+ * the row ({@link Row.setColumns}, {@link Row.save}, {@link Row.delete},
+ * {@link Row.restore} and {@link Row.deletePermanently}). The bulk operations
+ * (e.g. {@link updateAll}) and {@link upsert} do not write audit entries, so
+ * they do not accept the `audit` option. Each write and its audit entry are
+ * run in one transaction, so the write is rolled back if the audit entry
+ * cannot be inserted.
+ *
+ * The audit log table must have these columns, and can be created with Knex
+ * schema builder:
+ *
+ * ```ts
+ * await conn.schema.createTable("audit_log", (table) => {
+ *   table.increments("id")
+ *   table.string("table_name")
+ *   table.text("primary_key").nullable()
+ *   table.string("operation")
+ *   table.text("old_values").nullable()
+ *   table.text("new_values").nullable()
+ *   table.string("actor").nullable()
+ *   table.timestamp("time_created")
+ * })
+ * ```
+ */
+export interface AuditOpts {
+  tableName?: string;
+  actor?: string | null | (() => string | null);
+}
+
+/**
+ * A row change retrieved by {@link findAuditHistory}.
+ *
+ * `oldValues` contains the column values before the change and `newValues`
+ * contains the written column values, or `null` if the row did not exist
+ * before (insert) or does not exist after (permanent delete). Dates are
+ * stored as ISO strings and `Knex.Raw` values are stored as their SQL.
+ */
+export interface AuditEntry {
+  id: number;
+  tableName: string;
+  primaryKey: RowData | null;
+  operation: AuditOperation;
+  oldValues: RowData | null;
+  newValues: RowData | null;
+  actor: string | null;
+  timeCreated: Date;
+}
+
+interface AuditEntryRowData {
+  id: number;
+  table_name: string;
+  primary_key: string | null;
+  operation: AuditOperation;
+  old_values: string | null;
+  new_values: string | null;
+  actor: string | null;
+  time_created: Date | number | string;
+}
+
+/**
+ * Inserts an audit log entry using the same connection as the change, so the
+ * entry is rolled back together with the change. Nothing is written if the
+ * `audit` option is not provided.
+ *
+ * @internal
+ */
+export async function writeAuditEntry(
+  conn: Connection,
+  rowOpts: RowOpts & { tableName: string },
+  entry: {
+    operation: AuditOperation;
+    primaryKey: RowData | null;
+    oldValues: UpdateData | null;
+    newValues: UpdateData | null;
+  }
+): Promise<void> {
+  const { audit } = rowOpts;
+  if (!audit) {
+    return;
+  }
+
+  const { tableName = AUDIT_TABLE, actor = null } = audit;
+  const { operation, primaryKey, oldValues, newValues } = entry;
+
+  await mapDatabaseError(
+    tableName,
+    conn(tableName).insert({
+      table_name: rowOpts.tableName,
+      primary_key: serialize(primaryKey),
+      operation,
+      old_values: serialize(oldValues),
+      new_values: serialize(newValues),
+      actor: typeof actor === "function" ? actor() : actor,
+      time_created: now(conn, rowOpts),
+    })
+  );
+}
+
+function serialize(data: UpdateData | null): string | null {
+  return data && JSON.stringify(data, replaceRaw);
+}
+
+function replaceRaw(_: string, value: RowValue): RowValue {
+  return isRaw(value) ? value.toQuery() : value;
+}
+
+function deserialize(data: string | null): RowData | null {
+  return data === null ? null : (JSON.parse(data) as RowData);
+}
+
+/**
+ * Returns the audit log entries of a row, from the oldest to the newest.
+ *
+ * Options:
+ *
+ * - `conn` *(required)*: the Knex connection object used for creating the query
+ * - `tableName` *(required)*: the table of the row
+ * - `primaryKey` *(required)*: the primary key of the row, usually from {@link Row.primaryKey}
+ * - `audit`: the audit options, only `tableName` is used (default: `{}`)
+ *
+ * ```ts
+ * const history = await findAuditHistory({
+ *   conn,
+ *   tableName: "kansen",
+ *   primaryKey: row.primaryKey,
+ * })
+ *
+ * for (const { operation, oldValues, newValues, actor } of history) {
+ *   // ...
+ * }
+ * ```
+ *
+ * The primary key is matched by its JSON representation, so the key columns
+ * and value types must be the same as {@link Row.primaryKey}.
+ *
+ * @param opts The options for select query
+ * @returns The audit log entries (possibly empty)
+ */
+export async function findAuditHistory(
+  opts: ConnectionOpts & {
+    tableName: string;
+    primaryKey: RowData;
+    audit?: AuditOpts;
+  }
+): Promise<AuditEntry[]> {
+  const { conn, tableName, primaryKey, audit = {} } = opts;
+  const { tableName: auditTableName = AUDIT_TABLE } = audit;
+
+  const rowDataArray = (await mapDatabaseError(
+    auditTableName,
+    conn(auditTableName)
+      .where({
+        table_name: tableName,
+        primary_key: serialize(primaryKey),
+      })
+      .orderBy("id")
+  )) as AuditEntryRowData[];
+
+  return rowDataArray.map((rowData) => ({
+    id: rowData.id,
+    tableName: rowData.table_name,
+    primaryKey: deserialize(rowData.primary_key),
+    operation: rowData.operation,
+    oldValues: deserialize(rowData.old_values),
+    newValues: deserialize(rowData.new_values),
+    actor: rowData.actor,
+    timeCreated: toDate(rowData.time_created),
+  }));
+}
@@ -0,0 +1,209 @@
+import { Knex } from "knex";
+import { RowData, RowValue, UpdateData } from "./row";
+import { ColumnName } from "./table";
+
+/**
+ * Converts a column value between the type returned by the database driver
+ * and the type used by the application.
+ *
+ * - `decode`: converts the value from query results, e.g. when a {@link Row}
+ *   is created or reloaded
+ * - `encode`: converts the value to be written, e.g. in {@link Row.setColumns}
+ *   and {@link insert}
+ *
+ * Codecs are not called for `null` values and `Knex.Raw` values.
+ *
+ * @template Value The type used by the application
+ */
+export interface ColumnCodec<Value = RowValue> {
+  decode(value: RowValue): Value;
+  encode(value: Value): RowValue;
+}
+
+/**
+ * The codecs of table columns, usually provided to {@link defineTable}:
+ *
+ * ```ts
+ * const kansenTable = defineTable<KansenSchema>()({
+ *   tableName: "kansen",
+ *   codecs: {
+ *     is_retrofitted: booleanCodec(),
+ *     equipment: jsonCodec<Equipment[]>(),
+ *     rarity: enumCodec(["common", "rare", "elite"] as const),
+ *   },
+ * })
+ * ```
+ *
+ * @template Schema The column schema of the table
+ */
+export type ColumnCodecs<Schema extends object = RowData> = {
+  [Col in ColumnName<Schema>]?: ColumnCodec<Schema[Col]>;
+};
+
+/**
+ * Returns a codec for JSON values stored as text, e.g. `TEXT` columns or JSON
+ * columns in SQLite. Values that are already parsed by the driver (e.g. JSON
+ * columns in MySQL) are returned as is.
+ *
+ * @template Value The type of parsed JSON value
+ */
+export function jsonCodec<Value>(): ColumnCodec<Value> {
+  return {
+    decode: (value) =>
+      (typeof value === "string" ? JSON.parse(value) : value) as Value,
+    encode: (value) => JSON.stringify(value),
+  };
+}
+
+/**
+ * Returns a codec for boolean values stored as integers, e.g. `TINYINT(1)` in
+ * MySQL. Values are written as `1` and `0`.
+ */
+export function booleanCodec(): ColumnCodec<boolean> {
+  return {
+    decode: (value) => Boolean(Number(value)),
+    encode: (value) => (value ? 1 : 0),
+  };
+}
+
+/**
+ * Returns a codec for timestamp values, which may be returned by the driver
+ * as Date objects, milliseconds since epoch (e.g. Date objects written by
+ * SQLite drivers) or strings.
+ *
+ * Strings without time zone in `YYYY-MM-DD HH:MM:SS` format (e.g.
+ * `CURRENT_TIMESTAMP` in SQLite) are read as UTC.
+ */
+export function dateCodec(): ColumnCodec<Date> {
+  return {
+    decode: toDate,
+    encode: (value) => value,
+  };
+}
+
+/**
+ * Returns a codec for big integer values as strings. Values returned by the
+ * driver as numbers are converted to strings.
+ *
+ * The codec only decodes the value returned by the driver, so the driver must
+ * return big integers as strings for the values to keep their precision (e.g.
+ * `supportBigNumbers` and `bigNumberStrings` connection options in `mysql2`).
+ * Otherwise, values larger than `Number.MAX_SAFE_INTEGER` are already rounded
+ * by the driver.
+ */
+export function bigintCodec(): ColumnCodec<string> {
+  return {
+    decode: (value) => String(value),
+    encode: (value) => value,
+  };
+}
+
+/**
+ * Returns a codec for string enum values. An error will be thrown if the value
+ * is not one of the allowed values, when it is read or written.
+ *
+ * ```ts
+ * const rarityCodec = enumCodec(["common", "rare", "elite"] as const)
+ * ```
+ *
+ * @param values The allowed values
+ * @template Value The type of allowed values
+ */
+export function enumCodec<Value extends string>(
+  values: readonly Value[]
+): ColumnCodec<Value> {
+  const check = (value: RowValue): Value => {
+    if (!values.includes(value as Value)) {
+      throw new Error(
+        `Invalid enum value '${String(value)}', expected one of ${values
+          .map((item) => `'${item}'`)
+          .join(", ")}`
+      );
+    }
+
+    return value as Value;
+  };
+
+  return { decode: check, encode: check };
+}
+
+const UTC_DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/;
+
+/**
+ * Converts a timestamp value from the database driver into a Date object.
+ *
+ * @internal
+ */
+export function toDate(value: RowValue): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+
+  if (typeof value === "string" && UTC_DATETIME_PATTERN.test(value)) {
+    return new Date(`${value.replace(" ", "T")}Z`);
+  }
+
+  return new Date(value as string | number);
+}
+
+/**
+ * Returns `true` if the value is a `Knex.Raw` object, `false` otherwise.
+ *
+ * @internal
+ */
+export function isRaw(value: RowValue | Knex.Raw): value is Knex.Raw {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as Knex.Raw).toSQL === "function"
+  );
+}
+
+/**
+ * Returns a copy of the row data from query results with decoded values.
+ *
+ * @internal
+ */
+export function decodeRowData(
+  rowData: RowData,
+  codecs: ColumnCodecs = {}
+): RowData {
+  const decoded = { ...rowData };
+
+  for (const [col, codec] of Object.entries(codecs)) {
+    const value = rowData[col];
+
+    if (codec && value !== null && typeof value !== "undefined") {
+      decoded[col] = codec.decode(value);
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Returns a copy of the data to be written with encoded values.
+ *
+ * @internal
+ */
+export function encodeRowData(
+  data: UpdateData,
+  codecs: ColumnCodecs = {}
+): UpdateData {
+  const encoded = { ...data };
+
+  for (const [col, codec] of Object.entries(codecs)) {
+    const value = data[col];
+
+    if (
+      codec &&
+      value !== null &&
+      typeof value !== "undefined" &&
+      !isRaw(value)
+    ) {
+      encoded[col] = codec.encode(value);
+    }
+  }
+
+  return encoded;
+}
@@ -0,0 +1,149 @@
+import { Knex } from "knex";
+import { RowData, RowValue } from "./row";
+
+/**
+ * @internal
+ */
+export type CursorDirection = "next" | "prev";
+
+/**
+ * @internal
+ */
+export interface CursorOrder {
+  column: string;
+  order: "asc" | "desc";
+}
+
+/**
+ * @internal
+ */
+export interface Cursor {
+  direction: CursorDirection;
+  values: RowValue[];
+}
+
+/**
+ * Encodes the sort key values of a row into an opaque URL-safe cursor.
+ *
+ * Date values are tagged so they can be decoded back into Date objects.
+ *
+ * @internal
+ */
+export function encodeCursor(
+  direction: CursorDirection,
+  order: CursorOrder[],
+  rowData: RowData
+): string {
+  const values = order.map(({ column }) => {
+    const value = rowData[column];
+    return value instanceof Date ? { date: value.toISOString() } : value;
+  });
+
+  return Buffer.from(JSON.stringify({ direction, values }))
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decodes a cursor created by {@link encodeCursor}.
+ *
+ * The cursor may come from HTTP clients, so only strings, numbers, booleans,
+ * `null` and tagged dates with a valid timestamp are accepted as values. An error
+ * will be thrown if the cursor is malformed, contains other values (e.g.
+ * objects, which would be expanded by some drivers) or does not match the
+ * sort order.
+ *
+ * @internal
+ */
+export function decodeCursor(cursor: string, order: CursorOrder[]): Cursor {
+  let decoded: Cursor | null;
+  try {
+    decoded = JSON.parse(
+      Buffer.from(cursor, "base64").toString("utf8")
+    ) as Cursor | null;
+  } catch (error) {
+    throw new Error(`Invalid cursor '${cursor}'`);
+  }
+
+  if (typeof decoded !== "object" || decoded === null) {
+    throw new Error(`Invalid cursor '${cursor}'`);
+  }
+
+  const { direction, values } = decoded;
+  if (
+    (direction !== "next" && direction !== "prev") ||
+    !Array.isArray(values) ||
+    values.length !== order.length
+  ) {
+    throw new Error(`Invalid cursor '${cursor}'`);
+  }
+
+  return {
+    direction,
+    values: values.map((value: RowValue): RowValue => {
+      const decodedValue = decodeCursorValue(value);
+      if (typeof decodedValue === "undefined") {
+        throw new Error(`Invalid cursor '${cursor}'`);
+      }
+
+      return decodedValue;
+    }),
+  };
+}
+
+function decodeCursorValue(value: RowValue): RowValue | undefined {
+  if (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return value;
+  }
+
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.keys(value).length === 1 &&
+    typeof (value as { date?: unknown }).date === "string"
+  ) {
+    const date = new Date((value as { date: string }).date);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+
+  return undefined;
+}
+
+/**
+ * Adds the keyset condition to the query, which only matches rows that come
+ * after (or before, if direction is `prev`) the cursor values:
+ *
+ * ```sql
+ * WHERE (a > ?) OR (a = ? AND b > ?) OR (a = ? AND b = ? AND c > ?)
+ * ```
+ *
+ * @internal
+ */
+export function whereCursor(
+  query: Knex.QueryBuilder,
+  order: CursorOrder[],
+  cursor: Cursor
+): void {
+  const { direction, values } = cursor;
+
+  void query.where(function () {
+    order.forEach(({ column, order: columnOrder }, i) => {
+      void this.orWhere(function () {
+        for (let j = 0; j < i; j += 1) {
+          void this.where(order[j].column, values[j] as Knex.Value);
+        }
+
+        const isAfter = (columnOrder === "asc") === (direction === "next");
+        void this.where(column, isAfter ? ">" : "<", values[i] as Knex.Value);
+      });
+    });
+  });
+}
@@ -0,0 +1,151 @@
+import { Knex } from "knex";
+import { Connection } from "./connection";
+
+/**
+ * The dialects whose Knex clients return rows from `RETURNING` clause for
+ * insert and update queries.
+ */
+const RETURNING_DIALECTS = ["postgresql", "mssql"];
+
+/**
+ * The dialects whose Knex clients stream rows from the database driver
+ * without loading the whole result set first.
+ */
+const STREAMING_DIALECTS = ["mysql", "mssql"];
+
+/**
+ * Returns the dialect name of the connection client (e.g. `mysql` for both
+ * `mysql` and `mysql2` clients, `sqlite3` for both `sqlite3` and
+ * `better-sqlite3` clients).
+ *
+ * @internal
+ */
+export function getDialect(conn: Connection): string {
+  return (conn.client as Knex.Client).dialect;
+}
+
+/**
+ * The minimum SQLite version that supports `RETURNING` clause.
+ */
+const SQLITE_RETURNING_VERSION = [3, 35];
+
+/**
+ * The SQLite versions of the connection clients, keyed by the client config
+ * so transactions share the version of their connection.
+ */
+const sqliteVersions = new WeakMap<object, number[]>();
+
+/**
+ * Returns `true` if the connection client supports `RETURNING` clause for
+ * insert and update queries, `false` otherwise.
+ *
+ * @internal
+ */
+export function supportsReturning(conn: Connection): boolean {
+  return RETURNING_DIALECTS.includes(getDialect(conn));
+}
+
+/**
+ * Returns `true` if the connection client supports `RETURNING` clause for
+ * insert queries, `false` otherwise.
+ *
+ * In addition to {@link supportsReturning}, this includes `better-sqlite3`
+ * with SQLite 3.35 or later. Knex does not add `RETURNING` clause to update
+ * queries in SQLite, and the `sqlite3` driver does not return the rows.
+ *
+ * @internal
+ */
+export async function supportsInsertReturning(
+  conn: Connection
+): Promise<boolean> {
+  if (supportsReturning(conn)) {
+    return true;
+  }
+
+  const client = conn.client as Knex.Client;
+  if (client.driverName !== "better-sqlite3") {
+    return false;
+  }
+
+  const [major, minor] = await getSqliteVersion(conn);
+  const [minMajor, minMinor] = SQLITE_RETURNING_VERSION;
+
+  return major > minMajor || (major === minMajor && minor >= minMinor);
+}
+
+async function getSqliteVersion(conn: Connection): Promise<number[]> {
+  const { config } = conn.client as Knex.Client;
+
+  let version = sqliteVersions.get(config);
+  if (!version) {
+    const [{ version: versionString }] = (await conn.raw(
+      "select sqlite_version() as version"
+    )) as [{ version: string }];
+
+    version = versionString.split(".").map(Number);
+    sqliteVersions.set(config, version);
+  }
+
+  return version;
+}
+
+/**
+ * Returns the value of the column from the row proposed for insertion in an
+ * upsert query (`VALUES(col)` in MySQL, `excluded.col` in other databases).
+ *
+ * @internal
+ */
+export function insertedValue(conn: Connection, col: string): Knex.Raw {
+  return getDialect(conn) === "mysql"
+    ? conn.raw("VALUES(??)", [col])
+    : conn.raw("??", [`excluded.${col}`]);
+}
+
+/**
+ * Returns `true` if the connection client supports streaming the result set
+ * with `.stream()`, `false` otherwise.
+ *
+ * @internal
+ */
+export function supportsStreaming(conn: Connection): boolean {
+  return STREAMING_DIALECTS.includes(getDialect(conn));
+}
+
+/**
+ * The dialects whose Knex clients support row locking clauses (`FOR UPDATE`
+ * and `FOR SHARE`) with `SKIP LOCKED` and `NOWAIT`.
+ */
+const LOCKING_DIALECTS = ["mysql", "postgresql"];
+
+/**
+ * The driver error codes for a transaction that can succeed if it is retried:
+ * deadlock in MySQL, and locked database in SQLite.
+ */
+const RETRYABLE_ERROR_CODES = ["ER_LOCK_DEADLOCK", "SQLITE_BUSY"];
+
+/**
+ * Returns `true` if the connection client supports row locking clauses,
+ * `false` otherwise.
+ *
+ * @internal
+ */
+export function supportsLocking(conn: Connection): boolean {
+  return LOCKING_DIALECTS.includes(getDialect(conn));
+}
+
+/**
+ * Returns `true` if the error from the database driver means the transaction
+ * can be retried (e.g. deadlock), `false` otherwise.
+ *
+ * @internal
+ */
+export function isRetryableError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+
+  return (
+    typeof code === "string" &&
+    RETRYABLE_ERROR_CODES.some((retryableCode) =>
+      code.startsWith(retryableCode)
+    )
+  );
+}
@@ -0,0 +1,298 @@
+import type { RowData } from "./row";
+
+/**
+ * Thrown when a write query for a row with version column does not affect any
+ * row, which means the row has been modified or deleted after it is loaded.
+ *
+ * ```ts
+ * try {
+ *   await row.setColumns({ score: 40 })
+ * } catch (error) {
+ *   if (error instanceof StaleRowError) {
+ *     // Reload the row and try again
+ *   }
+ * }
+ * ```
+ */
+export class StaleRowError extends Error {
+  readonly tableName: string;
+  readonly primaryKey: RowData;
+  readonly version: number;
+
+  constructor(opts: {
+    tableName: string;
+    primaryKey: RowData;
+    version: number;
+  }) {
+    const { tableName, primaryKey, version } = opts;
+
+    super(
+      `Row ${JSON.stringify(
+        primaryKey
+      )} in table ${tableName} with version ${version} has been modified or deleted`
+    );
+
+    this.name = "StaleRowError";
+    this.tableName = tableName;
+    this.primaryKey = primaryKey;
+    this.version = version;
+  }
+}
+
+/**
+ * Thrown when a column does not exist in the row data of a {@link Row}, e.g.
+ * by {@link Row.getColumn} and {@link Row.setColumns}.
+ */
+export class ColumnNotFoundError extends Error {
+  readonly tableName: string;
+  readonly column: string;
+
+  constructor(opts: { tableName: string; column: string }) {
+    const { tableName, column } = opts;
+
+    super(`Column '${column}' does not exist for table ${tableName}`);
+
+    this.name = "ColumnNotFoundError";
+    this.tableName = tableName;
+    this.column = column;
+  }
+}
+
+/**
+ * Thrown when a {@link Row} no longer exists in the table, e.g. by
+ * {@link Row.reload}.
+ */
+export class RowNotFoundError extends Error {
+  readonly tableName: string;
+  readonly primaryKey: RowData;
+
+  constructor(opts: { tableName: string; primaryKey: RowData }) {
+    const { tableName, primaryKey } = opts;
+
+    super(
+      `Row ${JSON.stringify(primaryKey)} does not exist for table ${tableName}`
+    );
+
+    this.name = "RowNotFoundError";
+    this.tableName = tableName;
+    this.primaryKey = primaryKey;
+  }
+}
+
+/**
+ * The base class of the errors mapped from database driver errors (`mysql2`,
+ * `sqlite3` and `better-sqlite3`). The message is the same as the driver
+ * error, which is available as `driverError`:
+ *
+ * ```ts
+ * try {
+ *   await insert("user", { name: "alice" }, { conn })
+ * } catch (error) {
+ *   if (error instanceof UniqueViolationError) {
+ *     res.sendStatus(409)
+ *   }
+ * }
+ * ```
+ */
+export class DatabaseError extends Error {
+  readonly tableName: string;
+  readonly code: string | null;
+  readonly driverError: Error;
+
+  constructor(opts: { tableName: string; driverError: Error }) {
+    const { tableName, driverError } = opts;
+
+    super(driverError.message);
+
+    this.name = "DatabaseError";
+    this.tableName = tableName;
+    this.code = getErrorCode(driverError);
+    this.driverError = driverError;
+  }
+}
+
+interface ConstraintViolationOpts {
+  tableName: string;
+  driverError: Error;
+  columns?: string[];
+  constraint?: string | null;
+}
+
+/**
+ * The base class of the errors thrown when a write query violates a
+ * constraint. `columns` and `constraint` are parsed from the driver error
+ * message, and are empty if the driver does not report them.
+ */
+export class ConstraintViolationError extends DatabaseError {
+  readonly columns: string[];
+  readonly constraint: string | null;
+
+  constructor(opts: ConstraintViolationOpts) {
+    const { columns = [], constraint = null } = opts;
+
+    super(opts);
+
+    this.name = "ConstraintViolationError";
+    this.columns = columns;
+    this.constraint = constraint;
+  }
+}
+
+/**
+ * Thrown when a write query violates a unique or primary key constraint.
+ *
+ * MySQL only reports the name of the violated index, so `columns` is always
+ * empty and `constraint` contains the index name (e.g. `user_name_unique`).
+ * SQLite only reports the columns, so `constraint` is always `null`.
+ */
+export class UniqueViolationError extends ConstraintViolationError {
+  constructor(opts: ConstraintViolationOpts) {
+    super(opts);
+    this.name = "UniqueViolationError";
+  }
+}
+
+/**
+ * Thrown when a write query violates a foreign key constraint.
+ */
+export class ForeignKeyViolationError extends ConstraintViolationError {
+  constructor(opts: ConstraintViolationOpts) {
+    super(opts);
+    this.name = "ForeignKeyViolationError";
+  }
+}
+
+/**
+ * Thrown when a write query sets a `NOT NULL` column to `NULL`, or does not
+ * provide a column without default value.
+ */
+export class NotNullViolationError extends ConstraintViolationError {
+  constructor(opts: ConstraintViolationOpts) {
+    super(opts);
+    this.name = "NotNullViolationError";
+  }
+}
+
+/**
+ * Thrown when a query is aborted because of a deadlock with other
+ * transactions. The transaction can be retried, see {@link withTransaction}.
+ */
+export class DeadlockError extends DatabaseError {
+  constructor(opts: { tableName: string; driverError: Error }) {
+    super(opts);
+    this.name = "DeadlockError";
+  }
+}
+
+// Errors from native drivers may be created in another realm (e.g. Jest), so
+// `instanceof Error` cannot be used
+function isError(error: unknown): error is Error {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    typeof (error as Error).message === "string"
+  );
+}
+
+function getErrorCode(error: Error): string | null {
+  const { code } = error as { code?: unknown };
+  return typeof code === "string" ? code : null;
+}
+
+function parseSqliteColumns(message: string): string[] {
+  const [, cols = ""] = /constraint failed: (.+)$/.exec(message) ?? [];
+
+  return cols
+    .split(", ")
+    .filter(Boolean)
+    .map((col) => col.slice(col.indexOf(".") + 1));
+}
+
+/**
+ * Returns the error mapped to a {@link DatabaseError} subclass if it is a
+ * known database driver error, or the error itself otherwise.
+ *
+ * @internal
+ */
+export function toDatabaseError(error: unknown, tableName: string): unknown {
+  if (!isError(error) || error instanceof DatabaseError) {
+    return error;
+  }
+
+  const code = getErrorCode(error);
+  const { message } = error;
+  const opts = { tableName, driverError: error };
+
+  switch (code) {
+    case "ER_DUP_ENTRY": {
+      const [, key = null] = /for key '([^']+)'/.exec(message) ?? [];
+      return new UniqueViolationError({
+        ...opts,
+        constraint: key && key.slice(key.lastIndexOf(".") + 1),
+      });
+    }
+    case "ER_NO_REFERENCED_ROW":
+    case "ER_NO_REFERENCED_ROW_2":
+    case "ER_ROW_IS_REFERENCED":
+    case "ER_ROW_IS_REFERENCED_2": {
+      const [, constraint = null, cols = ""] =
+        /CONSTRAINT `([^`]+)` FOREIGN KEY \(([^)]+)\)/.exec(message) ?? [];
+      return new ForeignKeyViolationError({
+        ...opts,
+        constraint,
+        columns: cols
+          .split(", ")
+          .filter(Boolean)
+          .map((col) => col.replace(/`/g, "")),
+      });
+    }
+    case "ER_BAD_NULL_ERROR":
+    case "ER_NO_DEFAULT_FOR_FIELD": {
+      const [, col] = /(?:Column|Field) '([^']+)'/.exec(message) ?? [];
+      return new NotNullViolationError({ ...opts, columns: col ? [col] : [] });
+    }
+    case "ER_LOCK_DEADLOCK":
+      return new DeadlockError(opts);
+  }
+
+  // sqlite3 only reports SQLITE_CONSTRAINT, while better-sqlite3 reports the
+  // extended codes (e.g. SQLITE_CONSTRAINT_UNIQUE)
+  if (code?.startsWith("SQLITE_CONSTRAINT")) {
+    if (/(UNIQUE|PRIMARY KEY) constraint failed/.test(message)) {
+      return new UniqueViolationError({
+        ...opts,
+        columns: parseSqliteColumns(message),
+      });
+    }
+
+    if (/FOREIGN KEY constraint failed/.test(message)) {
+      return new ForeignKeyViolationError(opts);
+    }
+
+    if (/NOT NULL constraint failed/.test(message)) {
+      return new NotNullViolationError({
+        ...opts,
+        columns: parseSqliteColumns(message),
+      });
+    }
+  }
+
+  return error;
+}
+
+/**
+ * Executes the query (or awaits the promise), and maps the database driver
+ * errors with {@link toDatabaseError}.
+ *
+ * @internal
+ */
+export async function mapDatabaseError<T>(
+  tableName: string,
+  query: PromiseLike<T>
+): Promise<T> {
+  try {
+    return await query;
+  } catch (error) {
+    throw toDatabaseError(error, tableName);
+  }
+}
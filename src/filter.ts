@@ -0,0 +1,284 @@
+import { Knex } from "knex";
+import { isRaw } from "./codec";
+import { RowData, RowValue } from "./row";
+import { ColumnName } from "./table";
+
+/**
+ * The operators that can be used for a column in a {@link Filter}.
+ *
+ * @template Value The column value type
+ */
+export interface FilterOperators<Value = RowValue> {
+  eq?: Value | null;
+  ne?: Value | null;
+  gt?: Value;
+  gte?: Value;
+  lt?: Value;
+  lte?: Value;
+  in?: Value[];
+  notIn?: Value[];
+  like?: string;
+  notLike?: string;
+  between?: [Value, Value];
+  isNull?: boolean;
+}
+
+/**
+ * A plain-object filter that can be used as `where` option for query
+ * functions such as {@link findAll} and {@link countAll}:
+ *
+ * ```ts
+ * const filter: Filter = {
+ *   score: { gte: 10 },
+ *   name: { like: "Graf%" },
+ *   id: { in: [1, 2] },
+ *   time_deleted: null,
+ *   or: [{ key: "z23" }, { not: { score: { lt: 40 } } }],
+ * }
+ * ```
+ *
+ * Each key is either a column name or one of the logical keys:
+ *
+ * - `and`: an array of filters that must all match
+ * - `or`: an array of filters where at least one must match
+ * - `not`: a filter that must not match
+ *
+ * The column value can be a value (`WHERE col = ?`), `null`
+ * (`WHERE col IS NULL`) or an object of {@link FilterOperators}. All keys of
+ * the same object must match.
+ *
+ * Values are always passed to the query as bindings and column names are
+ * always escaped by Knex. Operands are checked before they are bound: the
+ * comparison operators only accept strings, numbers, booleans, bigints,
+ * Date and Buffer objects (or `Knex.Raw`), `in`, `notIn` and `between` only
+ * accept arrays of those values, and `like` and `notLike` only accept strings.
+ * An error will be thrown for other operands, e.g. objects that would be
+ * expanded by some drivers.
+ *
+ * Note that any key is accepted as a column name. If the filter is created
+ * from user input, the keys should be checked against the columns that users
+ * are allowed to query, so hidden columns cannot be probed.
+ *
+ * @template Schema The column schema of the table (defaults to untyped row data)
+ */
+export type Filter<Schema extends object = RowData> = {
+  [Col in ColumnName<Schema>]?:
+    | Schema[Col]
+    | Knex.Raw
+    | null
+    | FilterOperators<Schema[Col]>;
+} & {
+  and?: Filter<Schema>[];
+  or?: Filter<Schema>[];
+  not?: Filter<Schema>;
+};
+
+/**
+ * Adds the conditions from a {@link Filter} into the query.
+ *
+ * This function can be used to apply filters in `before` functions:
+ *
+ * ```ts
+ * const rows = await findAll({
+ *   conn,
+ *   tableName: "kansen",
+ *   before(query) {
+ *     void query.leftJoin("fleet", "fleet.id", "kansen.fleet_id")
+ *     applyFilter(query, { "fleet.name": "Iron Blood" })
+ *   },
+ * })
+ * ```
+ *
+ * An error will be thrown if the filter contains an unknown operator or an
+ * invalid operand, e.g. if `and` or `or` is not an array of filters or `not`
+ * is not a filter.
+ *
+ * @param query The query to be modified
+ * @param filter The filter to be applied
+ */
+export function applyFilter<Schema extends object = RowData>(
+  query: Knex.QueryBuilder,
+  filter: Filter<Schema>
+): void {
+  for (const [key, value] of Object.entries(filter as RowData)) {
+    if (typeof value === "undefined") {
+      continue;
+    }
+
+    if (!isValidLogicalOperand(key, value)) {
+      throw new Error(`Invalid operand for filter operator '${key}'`);
+    }
+
+    switch (key) {
+      case "and":
+        for (const subFilter of value as Filter[]) {
+          void query.where(function () {
+            applyFilter(this, subFilter);
+          });
+        }
+        break;
+      case "or":
+        if ((value as Filter[]).length === 0) {
+          void query.whereRaw("1 = 0");
+          break;
+        }
+
+        void query.where(function () {
+          for (const subFilter of value as Filter[]) {
+            void this.orWhere(function () {
+              applyFilter(this, subFilter);
+            });
+          }
+        });
+        break;
+      case "not":
+        void query.whereNot(function () {
+          applyFilter(this, value as Filter);
+        });
+        break;
+      default:
+        applyColumnFilter(query, key, value);
+    }
+  }
+}
+
+function isPlainObject(value: RowValue): value is RowData {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function isOperators(value: RowValue): value is FilterOperators {
+  return isPlainObject(value);
+}
+
+function isValidLogicalOperand(key: string, operand: RowValue): boolean {
+  switch (key) {
+    case "and":
+    case "or":
+      return Array.isArray(operand) && operand.every(isPlainObject);
+    case "not":
+      return isPlainObject(operand);
+    default:
+      return true;
+  }
+}
+
+function applyColumnFilter(
+  query: Knex.QueryBuilder,
+  col: string,
+  value: RowValue
+): void {
+  if (!isOperators(value)) {
+    applyOperator(query, col, "eq", value);
+    return;
+  }
+
+  for (const [operator, operand] of Object.entries(value)) {
+    if (typeof operand !== "undefined") {
+      applyOperator(query, col, operator, operand);
+    }
+  }
+}
+
+function isScalar(value: RowValue): boolean {
+  return (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    typeof value === "bigint" ||
+    value instanceof Date ||
+    Buffer.isBuffer(value)
+  );
+}
+
+function isScalarArray(value: RowValue): boolean {
+  return Array.isArray(value) && value.every(isScalar);
+}
+
+function isValidOperand(operator: string, operand: RowValue): boolean {
+  switch (operator) {
+    case "eq":
+    case "ne":
+      return operand === null || isScalar(operand) || isRaw(operand);
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+      return isScalar(operand) || isRaw(operand);
+    case "in":
+    case "notIn":
+      return isScalarArray(operand);
+    case "between":
+      return isScalarArray(operand) && (operand as RowValue[]).length === 2;
+    case "like":
+    case "notLike":
+      return typeof operand === "string";
+    case "isNull":
+      return typeof operand === "boolean";
+    default:
+      return true;
+  }
+}
+
+function applyOperator(
+  query: Knex.QueryBuilder,
+  col: string,
+  operator: string,
+  operand: RowValue
+): void {
+  if (!isValidOperand(operator, operand)) {
+    throw new Error(
+      `Invalid operand for filter operator '${operator}' for column '${col}'`
+    );
+  }
+
+  const value = operand as Knex.Value;
+
+  switch (operator) {
+    case "eq":
+      void (value === null ? query.whereNull(col) : query.where(col, value));
+      break;
+    case "ne":
+      void (value === null
+        ? query.whereNotNull(col)
+        : query.where(col, "<>", value));
+      break;
+    case "gt":
+      void query.where(col, ">", value);
+      break;
+    case "gte":
+      void query.where(col, ">=", value);
+      break;
+    case "lt":
+      void query.where(col, "<", value);
+      break;
+    case "lte":
+      void query.where(col, "<=", value);
+      break;
+    case "in":
+      void query.whereIn(col, value as readonly Knex.Value[]);
+      break;
+    case "notIn":
+      void query.whereNotIn(col, value as readonly Knex.Value[]);
+      break;
+    case "like":
+      void query.where(col, "like", value);
+      break;
+    case "notLike":
+      void query.whereNot(col, "like", value);
+      break;
+    case "between":
+      void query.whereBetween(col, value as [Knex.Value, Knex.Value]);
+      break;
+    case "isNull":
+      void (value ? query.whereNull(col) : query.whereNotNull(col));
+      break;
+    default:
+      throw new Error(
+        `Unknown filter operator '${operator}' for column '${col}'`
+      );
+  }
+}
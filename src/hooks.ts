@@ -0,0 +1,127 @@
+import { Connection } from "./connection";
+import { Row, RowData } from "./row";
+import { ColumnValues } from "./table";
+
+/**
+ * The common properties of the object passed to every {@link TableHooks}
+ * function.
+ */
+export interface HookContext {
+  /**
+   * The connection used by the operation, which may be a transaction.
+   */
+  conn: Connection;
+  tableName: string;
+}
+
+/**
+ * The object passed to `beforeInsert` and `afterInsert` hooks.
+ *
+ * @template Schema The column schema of the table
+ */
+export interface InsertHookContext<Schema extends object = RowData>
+  extends HookContext {
+  data: ColumnValues<Schema>;
+
+  /**
+   * The inserted row, only available in `afterInsert` hooks called from
+   * {@link insertRow} and {@link insertRows}.
+   */
+  row?: Row<number | string, Schema>;
+}
+
+/**
+ * The object passed to `beforeUpdate` and `afterUpdate` hooks.
+ *
+ * @template Schema The column schema of the table
+ */
+export interface UpdateHookContext<Schema extends object = RowData>
+  extends HookContext {
+  row: Row<number | string, Schema>;
+  data: ColumnValues<Schema>;
+}
+
+/**
+ * The object passed to `beforeDelete` and `afterDelete` hooks.
+ *
+ * @template Schema The column schema of the table
+ */
+export interface DeleteHookContext<Schema extends object = RowData>
+  extends HookContext {
+  row: Row<number | string, Schema>;
+
+  /**
+   * `true` for {@link Row.deletePermanently}, `false` for {@link Row.delete}.
+   */
+  permanent: boolean;
+}
+
+/**
+ * The object passed to `afterFind` hooks.
+ *
+ * @template Schema The column schema of the table
+ */
+export interface FindHookContext<Schema extends object = RowData>
+  extends HookContext {
+  rows: Row<number | string, Schema>[];
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * The lifecycle hooks of a table, usually provided to {@link defineTable}:
+ *
+ * ```ts
+ * const kansenTable = defineTable<KansenSchema>()({
+ *   tableName: "kansen",
+ *   hooks: {
+ *     beforeInsert({ data }) {
+ *       if (typeof data.score === "number" && data.score < 0) {
+ *         throw new Error("Score must not be negative")
+ *       }
+ *
+ *       return { ...data, key: data.key ?? generateKey() }
+ *     },
+ *     async afterUpdate({ conn, row }) {
+ *       await conn("kansen_cache").where("kansen_id", row.id).delete()
+ *     },
+ *   },
+ * })
+ * ```
+ *
+ * The hooks are called with these operations:
+ *
+ * - `beforeInsert`, `afterInsert`: {@link insert}, {@link insertAll},
+ *   {@link insertRow} and {@link insertRows}, once for each row
+ * - `beforeUpdate`, `afterUpdate`: {@link Row.setColumns} (and the methods
+ *   that use it, such as {@link Row.save} and {@link Row.restore})
+ * - `beforeDelete`, `afterDelete`: {@link Row.delete} and
+ *   {@link Row.deletePermanently}
+ * - `afterFind`: {@link findAll}, {@link find}, {@link findPage} and
+ *   {@link findAllByCursor}, and {@link iterateAll} and {@link streamAll} once
+ *   for each batch of rows
+ *
+ * Hooks may be asynchronous and are awaited in order. `beforeInsert` and
+ * `beforeUpdate` may return new data, which replaces the data to be written.
+ * An error thrown from a `before` hook aborts the operation before any query
+ * is executed, while an error thrown from an `after` hook is thrown from the
+ * operation after the query (and can roll back the caller's transaction).
+ *
+ * Bulk operations (e.g. {@link updateAll}) and {@link upsert} do not call
+ * hooks, since they do not work with individual rows.
+ *
+ * @template Schema The column schema of the table
+ */
+export interface TableHooks<Schema extends object = RowData> {
+  beforeInsert?(
+    context: InsertHookContext<Schema>
+  ): MaybePromise<ColumnValues<Schema> | void>;
+  afterInsert?(context: InsertHookContext<Schema>): MaybePromise<void>;
+  beforeUpdate?(
+    context: UpdateHookContext<Schema>
+  ): MaybePromise<ColumnValues<Schema> | void>;
+  afterUpdate?(context: UpdateHookContext<Schema>): MaybePromise<void>;
+  beforeDelete?(context: DeleteHookContext<Schema>): MaybePromise<void>;
+  afterDelete?(context: DeleteHookContext<Schema>): MaybePromise<void>;
+  afterFind?(context: FindHookContext<Schema>): MaybePromise<void>;
+}
@@ -1,3 +1,14 @@
 export * from "./connection";
+export * from "./errors";
 export * from "./row";
+export * from "./filter";
+export * from "./table";
+export * from "./hooks";
+export * from "./audit";
+export * from "./codec";
+export * from "./relation";
+export * from "./loader";
+export * from "./repository";
+export * from "./transaction";
+export * from "./lock";
 export * from "./query";
@@ -0,0 +1,189 @@
+import { ConnectionOpts } from "./connection";
+import { TableHooks } from "./hooks";
+import { findAll } from "./query";
+import { Row, RowOpts, ID_COL } from "./row";
+import { ColumnName, RowId, TableDefinition } from "./table";
+
+type IdType = number | string;
+
+interface RowLoaderOpts extends ConnectionOpts, RowOpts {
+  includeDeleted?: boolean;
+}
+
+interface Batch {
+  ids: IdType[];
+  promise: Promise<Map<string, Row<IdType>>>;
+}
+
+/**
+ * A loader created by {@link createRowLoader}.
+ *
+ * @template RowType The type of rows
+ * @template Id The type of identifier column
+ */
+export interface RowLoader<RowType, Id extends IdType> {
+  /**
+   * Returns the row with the identifier, or `null` if the row does not exist.
+   *
+   * @param id The identifier of the row
+   */
+  load(id: Id): Promise<RowType | null>;
+
+  /**
+   * Returns the rows with the identifiers, in the same order. The result is
+   * `null` for each identifier whose row does not exist.
+   *
+   * @param ids The identifiers of the rows
+   */
+  loadMany(ids: Id[]): Promise<(RowType | null)[]>;
+
+  /**
+   * Removes the row with the identifier from the cache.
+   *
+   * @param id The identifier of the row
+   */
+  clear(id: Id): void;
+
+  /**
+   * Removes all rows from the cache.
+   */
+  clearAll(): void;
+}
+
+/**
+ * Creates a loader that retrieves rows by their identifier. All `load` calls
+ * within the same tick are collected into one select query
+ * (`WHERE {idCol} IN (...)`), and the results are cached by the loader:
+ *
+ * ```ts
+ * const loader = createRowLoader({ conn, tableName: "kansen" })
+ *
+ * // SELECT * FROM kansen WHERE id IN (1, 2) AND time_deleted IS NULL
+ * const [z23, u47] = await Promise.all([loader.load(1), loader.load(2)])
+ * ```
+ *
+ * Options:
+ *
+ * - `conn` *(required)*: the Knex connection object used for creating the query
+ * - `tableName` *(required)*: the table name
+ * - `table`: the {@link TableDefinition} of the table, can be used instead of `tableName`
+ * - `includeDeleted`: whether to include soft-deleted rows (default: `false`)
+ * - `idCol`, `primaryCols`, `timeCreatedCol`, `timeUpdatedCol`, `timeDeletedCol`, `versionCol`, `hiddenCols`, `timestamps`, `clock`, `hooks`, `audit`, `codecs`, `relations`: the options passed to each {@link Row} (default: the values from `table`, or the Row defaults)
+ *
+ * A row is removed from the cache when it is updated or deleted with the
+ * {@link Row} methods (e.g. {@link Row.setColumns} and {@link Row.delete}),
+ * so the next `load` call retrieves the row again. Changes made by other
+ * queries are not detected, so a loader should be short-lived, e.g. one loader
+ * per request.
+ *
+ * @param opts The options for select query
+ * @returns The row loader
+ */
+export function createRowLoader<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  opts: RowLoaderOpts & { table: TableDefinition<Schema, IdCol> }
+): RowLoader<Row<RowId<Schema, IdCol>, Schema>, RowId<Schema, IdCol>>;
+export function createRowLoader<T extends IdType = number>(
+  opts: RowLoaderOpts & { tableName: string }
+): RowLoader<Row<T>, T>;
+export function createRowLoader(
+  opts: RowLoaderOpts & { tableName?: string; table?: TableDefinition }
+): RowLoader<Row<IdType>, IdType> {
+  const { table, idCol = table?.idCol ?? ID_COL } = opts;
+  const tableHooks = opts.hooks ?? table?.hooks ?? {};
+
+  const cache = new Map<string, Promise<Row<IdType> | null>>();
+  const cacheKeys = new WeakMap<Row<IdType>, string>();
+  let batch: Batch | null = null;
+
+  const invalidate = (row: Row<IdType>): void => {
+    const key = cacheKeys.get(row);
+    if (typeof key !== "undefined") {
+      cache.delete(key);
+    }
+  };
+
+  const hooks: TableHooks = {
+    ...tableHooks,
+    async afterUpdate(context) {
+      invalidate(context.row);
+      await tableHooks.afterUpdate?.(context);
+    },
+    async afterDelete(context) {
+      invalidate(context.row);
+      await tableHooks.afterDelete?.(context);
+    },
+  };
+
+  const findRowsById = async (
+    ids: IdType[]
+  ): Promise<Map<string, Row<IdType>>> => {
+    const rows = await findAll({
+      ...(opts as RowLoaderOpts & { tableName: string }),
+      hooks,
+      where: { [idCol]: { in: ids } },
+    });
+
+    return new Map(rows.map((row) => [String(row.getColumn(idCol)), row]));
+  };
+
+  const getBatch = (): Batch => {
+    if (batch) {
+      return batch;
+    }
+
+    const ids: IdType[] = [];
+    const promise = new Promise<Map<string, Row<IdType>>>((resolve, reject) => {
+      // Wait until the promise jobs of the current tick are done, so the
+      // load calls after an await in the same tick are also in the batch
+      void Promise.resolve().then(() =>
+        process.nextTick(() => {
+          batch = null;
+          findRowsById(ids).then(resolve, reject);
+        })
+      );
+    });
+
+    batch = { ids, promise };
+    return batch;
+  };
+
+  const load = (id: IdType): Promise<Row<IdType> | null> => {
+    const key = String(id);
+
+    const cached = cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const currentBatch = getBatch();
+    currentBatch.ids.push(id);
+
+    const promise = currentBatch.promise.then(
+      (rows) => {
+        const row = rows.get(key) ?? null;
+        if (row) {
+          cacheKeys.set(row, key);
+        }
+
+        return row;
+      },
+      (error) => {
+        cache.delete(key);
+        throw error;
+      }
+    );
+    cache.set(key, promise);
+
+    return promise;
+  };
+
+  return {
+    load,
+    loadMany: (ids) => Promise.all(ids.map(load)),
+    clear: (id) => void cache.delete(String(id)),
+    clearAll: () => cache.clear(),
+  };
+}
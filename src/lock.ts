@@ -0,0 +1,66 @@
+import { Knex } from "knex";
+import { Connection } from "./connection";
+import { supportsLocking } from "./dialect";
+
+/**
+ * The mode of row lock: `update` for exclusive locks (`FOR UPDATE`) and
+ * `share` for shared locks (`FOR SHARE`, or `LOCK IN SHARE MODE` in MySQL).
+ */
+export type LockMode = "update" | "share";
+
+/**
+ * The options for locking the selected rows until the end of the
+ * transaction, accepted by {@link findAll} and {@link find}.
+ *
+ * - `lock`: the {@link LockMode} of the selected rows (default: none)
+ * - `skipLocked`: whether to skip the rows that are locked by other transactions (default: `false`)
+ * - `noWait`: whether to fail immediately if the rows are locked by other transactions (default: `false`)
+ *
+ * Rows can only be locked in a transaction, so an error will be thrown if the
+ * connection is not a transaction. Row locking is only supported by MySQL
+ * and PostgreSQL, and the options are ignored for other databases (e.g.
+ * SQLite, where a write transaction locks the whole database).
+ */
+export interface LockOpts {
+  lock?: LockMode;
+  skipLocked?: boolean;
+  noWait?: boolean;
+}
+
+/**
+ * Adds the row locking clause to the select query.
+ *
+ * @internal
+ */
+export function applyLock(
+  query: Knex.QueryBuilder,
+  conn: Connection,
+  tableName: string,
+  opts: LockOpts
+): void {
+  const { lock, skipLocked = false, noWait = false } = opts;
+
+  if (!lock) {
+    return;
+  }
+
+  if (!conn.isTransaction) {
+    throw new Error(
+      `Rows of table ${tableName} can only be locked in a transaction`
+    );
+  }
+
+  if (!supportsLocking(conn)) {
+    return;
+  }
+
+  void (lock === "update" ? query.forUpdate() : query.forShare());
+
+  if (skipLocked) {
+    void query.skipLocked();
+  }
+
+  if (noWait) {
+    void query.noWait();
+  }
+}
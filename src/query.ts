@@ -1,27 +1,133 @@
 import { Knex } from "knex";
-import { Row } from "./row";
+import { Row, RowClass, RowOpts } from "./row";
 import { ConnectionOpts } from "./connection";
-import { RowValue, TIME_DELETED_COL, ID_COL } from "./row";
+import {
+  RowData,
+  UpdateData,
+  ID_COL,
+  TIME_CREATED_COL,
+  TIME_UPDATED_COL,
+  TIME_DELETED_COL,
+} from "./row";
+import { ColumnName, ColumnValues, RowId, TableDefinition } from "./table";
+import { CursorOrder, decodeCursor, encodeCursor, whereCursor } from "./cursor";
+import {
+  getDialect,
+  insertedValue,
+  supportsInsertReturning,
+  supportsStreaming,
+} from "./dialect";
+import { Filter, applyFilter } from "./filter";
+import { now, withInsertTimestamps, withUpdateTimestamp } from "./timestamp";
+import { writeAuditEntry } from "./audit";
+import { decodeRowData, encodeRowData, isRaw } from "./codec";
+import { loadRelation } from "./relation";
+import { LockOpts, applyLock } from "./lock";
+import { mapDatabaseError, toDatabaseError } from "./errors";
 
 type IdType = number | string;
 
 type QueryFunction = (this: Knex.QueryBuilder) => Knex.QueryBuilder | void;
 
-interface SelectOpts extends ConnectionOpts {
-  tableName: string;
-  where?: QueryFunction;
+type TableOpts<Schema extends object, IdCol extends ColumnName<Schema>> =
+  | { tableName: string; table?: undefined }
+  | { table: TableDefinition<Schema, IdCol>; tableName?: undefined };
+
+/**
+ * The options shared by the select query functions, see {@link findAll}.
+ */
+export interface SelectOpts<Schema extends object = RowData>
+  extends ConnectionOpts,
+    RowOpts {
+  where?: QueryFunction | Filter<Schema>;
   includeDeleted?: boolean;
-  includeDeletedCol?: string;
+  includeDeletedCol?: ColumnName<Schema>;
   before?: (query: Knex.QueryBuilder) => void;
 }
 
 export const DEFAULT_PAGINATION_LIMIT = 20;
 
-interface FindAllOpts extends SelectOpts {
+export const DEFAULT_BATCH_SIZE = 1000;
+
+interface RowClassOpts<RowType = Row<IdType>> {
+  rowClass?: RowClass<RowType>;
+}
+
+/**
+ * The options for {@link findAll}.
+ */
+export interface FindAllOpts<Schema extends object = RowData>
+  extends SelectOpts<Schema>,
+    LockOpts {
   pagination?: {
     page?: number;
     limit?: number;
   };
+  include?: string[];
+}
+
+/**
+ * The options for {@link find}.
+ */
+export type FindOpts<Schema extends object = RowData> = Omit<
+  FindAllOpts<Schema>,
+  "pagination"
+>;
+
+interface TableRowOpts extends RowOpts {
+  tableName: string;
+  idCol: string;
+  timeCreatedCol: string;
+  timeUpdatedCol: string;
+  timeDeletedCol: string;
+  primaryCols: string[];
+}
+
+function getRowOpts(opts: RowOpts & TableOpts<RowData, string>): TableRowOpts {
+  const { table } = opts;
+  const {
+    idCol = table?.idCol ?? ID_COL,
+    timeCreatedCol = table?.timeCreatedCol ?? TIME_CREATED_COL,
+    timeUpdatedCol = table?.timeUpdatedCol ?? TIME_UPDATED_COL,
+    timeDeletedCol = table?.timeDeletedCol ?? TIME_DELETED_COL,
+    primaryCols = table?.primaryCols ?? [idCol],
+    versionCol = table?.versionCol,
+    hiddenCols = table?.hiddenCols,
+    timestamps = table?.timestamps,
+    clock = table?.clock,
+    hooks = table?.hooks,
+    audit = table?.audit,
+    codecs = table?.codecs,
+    relations = table?.relations,
+  } = opts;
+
+  return {
+    tableName: opts.table ? opts.table.tableName : opts.tableName,
+    idCol,
+    timeCreatedCol,
+    timeUpdatedCol,
+    timeDeletedCol,
+    primaryCols,
+    versionCol,
+    hiddenCols,
+    timestamps,
+    clock,
+    hooks,
+    audit,
+    codecs,
+    relations,
+  };
+}
+
+function getTableRowOpts(
+  table: string | TableDefinition,
+  opts: RowOpts
+): TableRowOpts {
+  return getRowOpts(
+    typeof table === "string"
+      ? { ...opts, tableName: table }
+      : { ...opts, table }
+  );
 }
 
 /**
@@ -31,13 +137,18 @@ interface FindAllOpts extends SelectOpts {
  *
  * - `conn` *(required)*: the Knex connection object used for creating the query
  * - `tableName` *(required)*: the table name
- * - `where`: the (where argument)[knex-where] for the query
+ * - `table`: the {@link TableDefinition} of the table, can be used instead of `tableName`
+ * - `where`: the (where argument)[knex-where] for the query, or a {@link Filter} object
  * - `includeDeleted`: whether to **skip** adding time deleted timestamp query (`WHERE {includeDeletedCol} IS NULL`) (default: `false`)
- * - `includeDeletedCol`: the name of time deleted timestamp column (default: {@link TIME_DELETED_COL})
+ * - `includeDeletedCol`: the name of time deleted timestamp column (default: `timeDeletedCol`)
+ * - `idCol`, `primaryCols`, `timeCreatedCol`, `timeUpdatedCol`, `timeDeletedCol`, `versionCol`, `hiddenCols`, `timestamps`, `clock`, `hooks`, `audit`, `codecs`, `relations`: the options passed to each {@link Row} (default: the values from `table`, or the Row defaults)
  * - `pagination`: whether to add limit-offset in query for pagination
  *   - `page`: the page number to be retrieved (default: `1`)
  *   - `limit`: the maximum number of rows in a page (default: {@link DEFAULT_PAGINATION_LIMIT})
  * - `before`: a function that will be called with the resulting query object to perform further modifications if necessary
+ * - `include`: the names of {@link Relations} to be loaded for the rows (see {@link Row.load})
+ * - `rowClass`: the {@link RowClass} used for creating the rows, e.g. a subclass of {@link Row} (default: {@link Row})
+ * - `lock`, `skipLocked`, `noWait`: the {@link LockOpts} for locking the rows in a transaction (default: no lock)
  *
  * The `includeDeleted` flag defaults to `true` because it is assumed that
  * most `findAll` queries will query tables with a soft-delete timestamp column.
@@ -46,36 +157,96 @@ interface FindAllOpts extends SelectOpts {
  * The `before` function can be used as 'escape hatch' to add further function
  * calls to the resulting query builder object, such as `.orderBy()`.
  *
+ * If `table` is provided, the rows are created using the table definition and
+ * the column names and value types are inferred from its schema.
+ *
+ * Each relation in `include` is loaded for all rows with one query
+ * (`WHERE ... IN (...)`), and the soft-deleted related rows are excluded
+ * unless `includeDeleted` is `true`.
+ *
  * [knex-where]: https://knexjs.org/#Builder-where
  *
  * @template IdType The type of identifier column (defaults to `number`)
  * @param opts The options for select query
  * @returns An array of Row objects (possibly empty)
  */
+export async function findAll<
+  RowType extends Row<IdType, Schema>,
+  Schema extends object = RowData,
+  IdCol extends ColumnName<Schema> = ColumnName<Schema>
+>(
+  opts: FindAllOpts<Schema> &
+    TableOpts<Schema, IdCol> &
+    Required<RowClassOpts<RowType>>
+): Promise<RowType[]>;
+export async function findAll<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  opts: FindAllOpts<Schema> & { table: TableDefinition<Schema, IdCol> }
+): Promise<Row<RowId<Schema, IdCol>, Schema>[]>;
 export async function findAll<T extends IdType = number>(
-  opts: FindAllOpts
-): Promise<Row<T>[]> {
+  opts: FindAllOpts & { tableName: string }
+): Promise<Row<T>[]>;
+export async function findAll(
+  opts: FindAllOpts & TableOpts<RowData, string> & RowClassOpts
+): Promise<Row<IdType>[]> {
+  return findRows(opts);
+}
+
+function selectQuery(
+  opts: SelectOpts,
+  rowOpts: TableRowOpts
+): Knex.QueryBuilder {
   const {
     conn,
-    tableName,
     where,
     includeDeleted = false,
-    includeDeletedCol = TIME_DELETED_COL,
-    pagination,
-    before,
+    includeDeletedCol = rowOpts.timeDeletedCol,
   } = opts;
 
-  const query = conn(tableName);
+  const query = conn(rowOpts.tableName);
 
-  if (where) {
+  if (typeof where === "function") {
     // eslint-disable-next-line @typescript-eslint/no-misused-promises
     void query.where(where);
+  } else if (where) {
+    applyFilter(query, where);
   }
 
   if (!includeDeleted) {
     void query.whereNull(includeDeletedCol);
   }
 
+  return query;
+}
+
+function createRow(
+  rowData: RowData,
+  rowOpts: TableRowOpts,
+  opts: ConnectionOpts & RowClassOpts
+): Row<IdType> {
+  const { conn, rowClass = Row } = opts;
+
+  return new rowClass({ ...rowOpts, rowData, conn });
+}
+
+function createRows(
+  rowDataArray: RowData[],
+  rowOpts: TableRowOpts,
+  opts: ConnectionOpts & RowClassOpts
+): Row<IdType>[] {
+  return rowDataArray.map((rowData) => createRow(rowData, rowOpts, opts));
+}
+
+async function findRows(
+  opts: FindAllOpts & TableOpts<RowData, string> & RowClassOpts
+): Promise<Row<IdType>[]> {
+  const rowOpts = getRowOpts(opts);
+  const { conn, pagination, before, include = [], includeDeleted } = opts;
+
+  const query = selectQuery(opts, rowOpts);
+
   if (pagination) {
     const { limit = DEFAULT_PAGINATION_LIMIT, page = 1 } = pagination;
     void query.limit(limit).offset((page - 1) * limit);
@@ -85,8 +256,31 @@ export async function findAll<T extends IdType = number>(
     before(query);
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-  return (await query).map((rowData) => new Row({ tableName, rowData, conn }));
+  applyLock(query, conn, rowOpts.tableName, opts);
+
+  const rows = createRows(
+    (await mapDatabaseError(rowOpts.tableName, query)) as RowData[],
+    rowOpts,
+    opts
+  );
+
+  for (const name of include) {
+    await loadRelation(rows, rowOpts, name, { conn, includeDeleted });
+  }
+
+  return callAfterFind(rows, rowOpts, opts);
+}
+
+async function callAfterFind(
+  rows: Row<IdType>[],
+  rowOpts: TableRowOpts,
+  opts: ConnectionOpts
+): Promise<Row<IdType>[]> {
+  const { conn } = opts;
+  const { tableName, hooks } = rowOpts;
+
+  await hooks?.afterFind?.({ conn, tableName, rows });
+  return rows;
 }
 
 /**
@@ -100,60 +294,646 @@ export async function findAll<T extends IdType = number>(
  * @param opts The options for select query
  * @returns A Row object or null
  */
+export async function find<
+  RowType extends Row<IdType, Schema>,
+  Schema extends object = RowData,
+  IdCol extends ColumnName<Schema> = ColumnName<Schema>
+>(
+  opts: FindOpts<Schema> &
+    TableOpts<Schema, IdCol> &
+    Required<RowClassOpts<RowType>>
+): Promise<RowType>;
+export async function find<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  opts: FindOpts<Schema> & { table: TableDefinition<Schema, IdCol> }
+): Promise<Row<RowId<Schema, IdCol>, Schema>>;
 export async function find<T extends IdType = number>(
-  opts: SelectOpts
-): Promise<Row<T>> {
-  const [result] = await findAll<T>(opts);
+  opts: FindOpts & { tableName: string }
+): Promise<Row<T>>;
+export async function find(
+  opts: FindOpts & TableOpts<RowData, string> & RowClassOpts
+): Promise<Row<IdType>> {
+  const [result] = await findRows(opts);
   return result ?? null;
 }
 
-interface CountAllOpts extends SelectOpts {
-  countBy?: string | string[];
+interface FindPageOpts<Schema extends object = RowData>
+  extends FindAllOpts<Schema> {
+  transaction?: boolean;
+  modify?: (query: Knex.QueryBuilder) => void;
 }
 
 /**
- * Executes a count query (SELECT COUNT({countBy}) ...).
+ * The result of {@link findPage}.
+ *
+ * @template RowType The type of rows
+ */
+export interface Page<RowType> {
+  rows: RowType[];
+  total: number;
+  page: number;
+  limit: number;
+  pageCount: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+/**
+ * Performs a select query with limit-offset pagination and a count query with
+ * the same conditions, and returns a page of {@link Row} objects with the
+ * page metadata.
+ *
+ * The function accepts the same options with {@link findAll}, with additional
+ * options:
+ *
+ * - `transaction`: whether to execute both queries in a transaction for a
+ *   consistent snapshot (default: `false`); if `conn` is already a
+ *   transaction, it will be used as is
+ * - `modify`: a function that will be called with both queries to add joins or
+ *   conditions that are not possible with `where`
+ *
+ * The `where`, `includeDeleted` and `modify` options are applied to both
+ * queries, while the `before` function is only applied to the select query, so
+ * it should only be used for ordering. Otherwise, `total` and `pageCount` may
+ * not match the rows.
+ *
+ * ```ts
+ * const { rows, total, pageCount, hasNext } = await findPage({
+ *   conn,
+ *   tableName: "kansen",
+ *   pagination: { page: 2, limit: 10 },
+ *   modify(query) {
+ *     void query.whereExists(function () {
+ *       void this.from("skin").whereRaw("skin.kansen_id = kansen.id")
+ *     })
+ *   },
+ *   before(query) {
+ *     void query.orderBy("score", "desc")
+ *   },
+ * })
+ * ```
+ *
+ * @template IdType The type of identifier column (defaults to `number`)
+ * @param opts The options for select query
+ * @returns A page of Row objects with page metadata
+ */
+export async function findPage<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  opts: FindPageOpts<Schema> & { table: TableDefinition<Schema, IdCol> }
+): Promise<Page<Row<RowId<Schema, IdCol>, Schema>>>;
+export async function findPage<T extends IdType = number>(
+  opts: FindPageOpts & { tableName: string }
+): Promise<Page<Row<T>>>;
+export async function findPage(
+  opts: FindPageOpts & TableOpts<RowData, string>
+): Promise<Page<Row<IdType>>> {
+  return findRowsPage(opts);
+}
+
+async function findRowsPage(
+  opts: FindPageOpts & TableOpts<RowData, string>
+): Promise<Page<Row<IdType>>> {
+  const { conn, pagination = {}, transaction = false, modify, before } = opts;
+  const { limit = DEFAULT_PAGINATION_LIMIT, page = 1 } = pagination;
+
+  if (transaction && !conn.isTransaction) {
+    return conn.transaction((trx) => findRowsPage({ ...opts, conn: trx }));
+  }
+
+  const rowOpts = getRowOpts(opts);
+
+  const countQuery = selectQuery(opts, rowOpts);
+  if (modify) {
+    modify(countQuery);
+  }
+
+  const [rows, total] = await Promise.all([
+    findRows({
+      ...opts,
+      pagination: { limit, page },
+      before(query) {
+        if (modify) {
+          modify(query);
+        }
+
+        if (before) {
+          before(query);
+        }
+      },
+    }),
+    countRows(countQuery, rowOpts.tableName, [
+      `${rowOpts.tableName}.${rowOpts.idCol}`,
+    ]),
+  ]);
+  const pageCount = Math.ceil(Number(total) / limit);
+
+  return {
+    rows,
+    total: Number(total),
+    page,
+    limit,
+    pageCount,
+    hasNext: page < pageCount,
+    hasPrev: page > 1,
+  };
+}
+
+interface FindAllByCursorOpts<Schema extends object = RowData>
+  extends SelectOpts<Schema> {
+  orderBy?: (
+    | ColumnName<Schema>
+    | { column: ColumnName<Schema>; order?: "asc" | "desc" }
+  )[];
+  cursor?: string | null;
+  limit?: number;
+}
+
+/**
+ * The result of {@link findAllByCursor}.
+ *
+ * @template RowType The type of rows
+ */
+export interface CursorPage<RowType> {
+  rows: RowType[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+/**
+ * Performs a select query with keyset (cursor) pagination and returns a page of
+ * {@link Row} objects with cursors for the next and previous pages.
  *
  * The function accepts the same options with {@link findAll} except for
- * `pagination` with an additional option:
+ * `pagination`, with additional options:
  *
- * - `countBy`: the (count expression)[knex-count]
+ * - `orderBy`: the columns to sort the rows by, as column names or
+ *   `{ column, order }` objects (default: `[]`)
+ * - `cursor`: the cursor from `nextCursor` or `prevCursor` of a previous
+ *   result; if not provided, the first page will be retrieved
+ * - `limit`: the maximum number of rows in a page (default: {@link DEFAULT_PAGINATION_LIMIT})
  *
- * [knex-count]: https://knexjs.org/#Builder-count
+ * The primary key columns are always appended to `orderBy` (unless already
+ * included) as a tiebreaker, so every row has a unique position. The sort
+ * columns should not contain `NULL` values.
+ *
+ * ```ts
+ * const page1 = await findAllByCursor({
+ *   conn,
+ *   tableName: "kansen",
+ *   orderBy: [{ column: "score", order: "desc" }],
+ *   limit: 10,
+ * })
+ *
+ * const page2 = await findAllByCursor({
+ *   conn,
+ *   tableName: "kansen",
+ *   orderBy: [{ column: "score", order: "desc" }],
+ *   limit: 10,
+ *   cursor: page1.nextCursor,
+ * })
+ * ```
+ *
+ * The cursor is an opaque URL-safe string that contains the sort key values
+ * of the last (or first) row. Cursors can only be used with the same
+ * `orderBy`; the `before` function should not change the sort order.
  *
  * @template IdType The type of identifier column (defaults to `number`)
  * @param opts The options for select query
- * @returns A Row object or null
+ * @returns A page of Row objects with cursors
  */
-export async function countAll(opts: CountAllOpts): Promise<number> {
+export async function findAllByCursor<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  opts: FindAllByCursorOpts<Schema> & { table: TableDefinition<Schema, IdCol> }
+): Promise<CursorPage<Row<RowId<Schema, IdCol>, Schema>>>;
+export async function findAllByCursor<T extends IdType = number>(
+  opts: FindAllByCursorOpts & { tableName: string }
+): Promise<CursorPage<Row<T>>>;
+export async function findAllByCursor(
+  opts: FindAllByCursorOpts & TableOpts<RowData, string>
+): Promise<CursorPage<Row<IdType>>> {
+  return findRowsByCursor(opts);
+}
+
+async function findRowsByCursor(
+  opts: FindAllByCursorOpts & TableOpts<RowData, string>
+): Promise<CursorPage<Row<IdType>>> {
+  const rowOpts = getRowOpts(opts);
   const {
-    conn,
-    tableName,
-    where = null,
-    includeDeleted = false,
-    includeDeletedCol = TIME_DELETED_COL,
-    countBy = [ID_COL],
+    orderBy = [],
+    cursor = null,
+    limit = DEFAULT_PAGINATION_LIMIT,
+    before,
   } = opts;
 
-  const query = conn(tableName);
+  const order: CursorOrder[] = orderBy.map((item) =>
+    typeof item === "string"
+      ? { column: item, order: "asc" }
+      : { column: item.column, order: item.order ?? "asc" }
+  );
+  for (const column of rowOpts.primaryCols) {
+    if (!order.some((item) => item.column === column)) {
+      order.push({ column, order: "asc" });
+    }
+  }
 
-  if (where) {
-    // eslint-disable-next-line @typescript-eslint/no-misused-promises
-    void query.where(where);
+  const decodedCursor = cursor ? decodeCursor(cursor, order) : null;
+  const direction = decodedCursor?.direction ?? "next";
+
+  const query = selectQuery(opts, rowOpts);
+
+  if (decodedCursor) {
+    whereCursor(query, order, decodedCursor);
   }
 
-  if (!includeDeleted) {
-    void query.whereNull(includeDeletedCol);
+  for (const { column, order: columnOrder } of order) {
+    const isReversed = direction === "prev";
+    void query.orderBy(
+      column,
+      isReversed === (columnOrder === "asc") ? "desc" : "asc"
+    );
+  }
+
+  void query.limit(limit + 1);
+
+  if (before) {
+    before(query);
+  }
+
+  const rowDataArray = (await mapDatabaseError(
+    rowOpts.tableName,
+    query
+  )) as RowData[];
+  const hasMore = rowDataArray.length > limit;
+
+  const pageData = rowDataArray.slice(0, limit);
+  if (direction === "prev") {
+    pageData.reverse();
+  }
+
+  const firstRowData = pageData[0];
+  const lastRowData = pageData[pageData.length - 1];
+  const hasNext = direction === "next" ? hasMore : decodedCursor !== null;
+  const hasPrev = direction === "prev" ? hasMore : decodedCursor !== null;
+
+  return {
+    rows: await callAfterFind(
+      createRows(pageData, rowOpts, opts),
+      rowOpts,
+      opts
+    ),
+    nextCursor:
+      hasNext && lastRowData ? encodeCursor("next", order, lastRowData) : null,
+    prevCursor:
+      hasPrev && firstRowData
+        ? encodeCursor("prev", order, firstRowData)
+        : null,
+  };
+}
+
+interface IterateAllOpts<Schema extends object = RowData>
+  extends SelectOpts<Schema> {
+  orderBy?: FindAllByCursorOpts<Schema>["orderBy"];
+  batchSize?: number;
+}
+
+/**
+ * Returns an async iterable of {@link Row} objects, which retrieves the rows in
+ * batches using keyset pagination (see {@link findAllByCursor}), so the whole
+ * result set is never loaded into memory at once:
+ *
+ * ```ts
+ * for await (const row of iterateAll({ conn, tableName: "kansen" })) {
+ *   // ...
+ * }
+ * ```
+ *
+ * The function accepts the same options with {@link findAll} except for
+ * `pagination`, with additional options:
+ *
+ * - `orderBy`: the columns to sort the rows by, same as {@link findAllByCursor} (default: `[]`)
+ * - `batchSize`: the maximum number of rows retrieved in a query (default: {@link DEFAULT_BATCH_SIZE})
+ *
+ * The `before` function is applied to every batch query.
+ *
+ * @template IdType The type of identifier column (defaults to `number`)
+ * @param opts The options for select query
+ * @returns An async iterable of Row objects
+ */
+export function iterateAll<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  opts: IterateAllOpts<Schema> & { table: TableDefinition<Schema, IdCol> }
+): AsyncIterable<Row<RowId<Schema, IdCol>, Schema>>;
+export function iterateAll<T extends IdType = number>(
+  opts: IterateAllOpts & { tableName: string }
+): AsyncIterable<Row<T>>;
+export async function* iterateAll(
+  opts: IterateAllOpts & TableOpts<RowData, string>
+): AsyncIterable<Row<IdType>> {
+  yield* iterateRows(opts);
+}
+
+async function* iterateRows(
+  opts: IterateAllOpts & TableOpts<RowData, string>
+): AsyncIterable<Row<IdType>> {
+  const { batchSize = DEFAULT_BATCH_SIZE } = opts;
+
+  let cursor: string | null = null;
+  do {
+    const page: CursorPage<Row<IdType>> = await findRowsByCursor({
+      ...opts,
+      cursor,
+      limit: batchSize,
+    });
+
+    yield* page.rows;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+/**
+ * Returns an async iterable of {@link Row} objects, which streams the rows
+ * from the database driver using Knex [`.stream()`][knex-stream]:
+ *
+ * ```ts
+ * for await (const row of streamAll({ conn, tableName: "kansen" })) {
+ *   // ...
+ * }
+ * ```
+ *
+ * The function accepts the same options with {@link findAll} except for
+ * `pagination`, with additional options:
+ *
+ * - `orderBy`: the columns to sort the rows by, same as {@link findAllByCursor} (default: `[]`)
+ * - `batchSize`: the maximum number of rows retrieved in a query if streaming
+ *   is not supported, or passed to the `afterFind` hook at once if streaming
+ *   is supported (default: {@link DEFAULT_BATCH_SIZE})
+ *
+ * Streaming is used for clients whose driver streams the result set (MySQL,
+ * MSSQL). For other clients, the rows are retrieved in batches with
+ * {@link iterateAll} instead. In both cases, the `afterFind` hook is called
+ * once for each batch of rows before they are yielded.
+ *
+ * [knex-stream]: https://knexjs.org/guide/interfaces.html#streams
+ *
+ * @template IdType The type of identifier column (defaults to `number`)
+ * @param opts The options for select query
+ * @returns An async iterable of Row objects
+ */
+export function streamAll<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  opts: IterateAllOpts<Schema> & { table: TableDefinition<Schema, IdCol> }
+): AsyncIterable<Row<RowId<Schema, IdCol>, Schema>>;
+export function streamAll<T extends IdType = number>(
+  opts: IterateAllOpts & { tableName: string }
+): AsyncIterable<Row<T>>;
+export async function* streamAll(
+  opts: IterateAllOpts & TableOpts<RowData, string>
+): AsyncIterable<Row<IdType>> {
+  const { conn, orderBy, before, batchSize = DEFAULT_BATCH_SIZE } = opts;
+
+  if (!supportsStreaming(conn)) {
+    yield* iterateRows(opts);
+    return;
+  }
+
+  const rowOpts = getRowOpts(opts);
+  const query = selectQuery(opts, rowOpts);
+
+  if (orderBy) {
+    void query.orderBy(orderBy);
   }
 
+  if (before) {
+    before(query);
+  }
+
+  let rows: Row<IdType>[] = [];
+  try {
+    for await (const rowData of query.stream()) {
+      rows.push(createRow(rowData as RowData, rowOpts, opts));
+
+      if (rows.length >= batchSize) {
+        yield* await callAfterFind(rows, rowOpts, opts);
+        rows = [];
+      }
+    }
+  } catch (error) {
+    throw toDatabaseError(error, rowOpts.tableName);
+  }
+
+  if (rows.length > 0) {
+    yield* await callAfterFind(rows, rowOpts, opts);
+  }
+}
+
+/**
+ * The options for {@link countAll}.
+ */
+export interface CountAllOpts<Schema extends object = RowData>
+  extends SelectOpts<Schema> {
+  countBy?: ColumnName<Schema> | ColumnName<Schema>[];
+}
+
+/**
+ * Executes a count query (SELECT COUNT({countBy}) ...).
+ *
+ * The function accepts the same options with {@link findAll} except for
+ * `pagination` with an additional option:
+ *
+ * - `countBy`: the (count expression)[knex-count] (default: `[idCol]`)
+ *
+ * [knex-count]: https://knexjs.org/#Builder-count
+ *
+ * @template IdType The type of identifier column (defaults to `number`)
+ * @param opts The options for select query
+ * @returns A Row object or null
+ */
+export async function countAll<
+  Schema extends object = RowData,
+  IdCol extends ColumnName<Schema> = ColumnName<Schema>
+>(opts: CountAllOpts<Schema> & TableOpts<Schema, IdCol>): Promise<number> {
+  const rowOpts = getRowOpts(opts as CountAllOpts & TableOpts<RowData, string>);
+  const { countBy = [rowOpts.idCol] } = opts;
+
+  return countRows(
+    selectQuery(opts as CountAllOpts, rowOpts),
+    rowOpts.tableName,
+    countBy
+  );
+}
+
+async function countRows(
+  query: Knex.QueryBuilder,
+  tableName: string,
+  countBy: string | string[]
+): Promise<number> {
   void query.count({ count: Array.isArray(countBy) ? countBy : [countBy] });
-  const [{ count }] = (await query) as [{ count: number }];
+  const [{ count }] = (await mapDatabaseError(tableName, query)) as [
+    { count: number }
+  ];
 
   return count;
 }
 
-interface InsertRowData {
-  [key: string]: RowValue | Knex.Raw;
+/**
+ * The options for {@link updateAll} and the other bulk operations.
+ */
+export type BulkOpts<Schema extends object = RowData> = Omit<
+  SelectOpts<Schema>,
+  "before" | "audit"
+>;
+
+/**
+ * Performs an update query for all rows that match the query and returns the
+ * number of affected rows.
+ *
+ * The function accepts the same options with {@link findAll} except for
+ * `pagination` and `before`. Note that if `where` is not provided, all rows
+ * (that are not soft-deleted, unless `includeDeleted` is `true`) will be
+ * updated.
+ *
+ * If `versionCol` is provided (see {@link Row}), the version column of the
+ * affected rows is incremented. If `timestamps` is enabled, the time updated
+ * column is set to the current time. The bulk operations do not accept the
+ * `audit` option, and are not recorded in the audit log.
+ *
+ * ```ts
+ * const count = await updateAll(
+ *   { score: 0 },
+ *   { conn, tableName: "kansen", where: { score: { lt: 10 } } }
+ * )
+ * ```
+ *
+ * @param data An object that contains the new column values
+ * @param opts The options for update query
+ * @returns The number of affected rows
+ */
+export async function updateAll<
+  Schema extends object = RowData,
+  IdCol extends ColumnName<Schema> = ColumnName<Schema>
+>(
+  data: ColumnValues<Schema>,
+  opts: BulkOpts<Schema> & TableOpts<Schema, IdCol>
+): Promise<number> {
+  return updateRows(
+    data as UpdateData,
+    opts as BulkOpts & TableOpts<RowData, string>
+  );
+}
+
+/**
+ * Marks all rows that match the query as soft-deleted, by setting the time
+ * deleted timestamp, and returns the number of affected rows.
+ *
+ * The function accepts the same options with {@link updateAll}. Rows that are
+ * already soft-deleted are not affected.
+ *
+ * @param opts The options for update query
+ * @returns The number of affected rows
+ */
+export async function softDeleteAll<
+  Schema extends object = RowData,
+  IdCol extends ColumnName<Schema> = ColumnName<Schema>
+>(opts: BulkOpts<Schema> & TableOpts<Schema, IdCol>): Promise<number> {
+  const { conn } = opts;
+  const rowOpts = getRowOpts(opts as BulkOpts & TableOpts<RowData, string>);
+  const { timeDeletedCol } = rowOpts;
+
+  return updateRows(
+    { [timeDeletedCol]: now(conn, rowOpts) },
+    {
+      ...(opts as BulkOpts & TableOpts<RowData, string>),
+      includeDeleted: false,
+    }
+  );
+}
+
+/**
+ * Unmarks all soft-deleted rows that match the query, by setting the time
+ * deleted timestamp to `NULL`, and returns the number of affected rows.
+ *
+ * The function accepts the same options with {@link updateAll} except for
+ * `includeDeleted`.
+ *
+ * @param opts The options for update query
+ * @returns The number of affected rows
+ */
+export async function restoreAll<
+  Schema extends object = RowData,
+  IdCol extends ColumnName<Schema> = ColumnName<Schema>
+>(
+  opts: Omit<BulkOpts<Schema>, "includeDeleted"> & TableOpts<Schema, IdCol>
+): Promise<number> {
+  const { timeDeletedCol } = getRowOpts(
+    opts as BulkOpts & TableOpts<RowData, string>
+  );
+
+  return updateRows(
+    { [timeDeletedCol]: null },
+    {
+      ...(opts as BulkOpts & TableOpts<RowData, string>),
+      includeDeleted: true,
+    },
+    (query) => void query.whereNotNull(timeDeletedCol)
+  );
+}
+
+/**
+ * Permanently removes all rows that match the query by executing a delete
+ * query, and returns the number of affected rows.
+ *
+ * The function accepts the same options with {@link updateAll}. Note that
+ * soft-deleted rows are not removed unless `includeDeleted` is `true`.
+ *
+ * @param opts The options for delete query
+ * @returns The number of affected rows
+ */
+export async function deleteAllPermanently<
+  Schema extends object = RowData,
+  IdCol extends ColumnName<Schema> = ColumnName<Schema>
+>(opts: BulkOpts<Schema> & TableOpts<Schema, IdCol>): Promise<number> {
+  const rowOpts = getRowOpts(opts as BulkOpts & TableOpts<RowData, string>);
+
+  return mapDatabaseError(
+    rowOpts.tableName,
+    selectQuery(opts as BulkOpts, rowOpts).delete()
+  );
+}
+
+async function updateRows(
+  data: UpdateData,
+  opts: BulkOpts & TableOpts<RowData, string>,
+  modify?: (query: Knex.QueryBuilder) => void
+): Promise<number> {
+  const { conn } = opts;
+  const rowOpts = getRowOpts(opts);
+  const { versionCol } = rowOpts;
+
+  const query = selectQuery(opts, rowOpts);
+
+  if (modify) {
+    modify(query);
+  }
+
+  const updateData = withUpdateTimestamp(data, conn, rowOpts);
+  if (versionCol) {
+    updateData[versionCol] = conn.raw("?? + 1", [versionCol]);
+  }
+
+  return mapDatabaseError(
+    rowOpts.tableName,
+    query.update(encodeRowData(updateData, rowOpts.codecs))
+  );
 }
 
 /**
@@ -162,19 +942,41 @@ interface InsertRowData {
  * Options:
  *
  * - `conn` *(required)*: the Knex connection object used for creating the query
+ * - `timestamps`, `clock`, `timeCreatedCol`, `timeUpdatedCol`: the timestamp options (default: the values from `table`, or the Row defaults)
+ * - `hooks`: the `beforeInsert` and `afterInsert` {@link TableHooks} (default: the value from `table`)
+ * - `audit`: the {@link AuditOpts} for recording the inserted rows into an audit log table (default: the value from `table`)
+ * - `codecs`: the {@link ColumnCodecs} for encoding the row data (default: the value from `table`)
  *
- * @param tableName The table name for new rows to be inserted
+ * If a {@link TableDefinition} is provided instead of the table name, the row
+ * data is checked against the table schema.
+ *
+ * If `audit` is provided, the rows are inserted one at a time in a transaction
+ * (if `conn` is not a transaction already), so the audit entries can record
+ * the primary key of each row.
+ *
+ * @param table The table name (or table definition) for new rows to be inserted
  * @param rowDataArray Array of row data to be inserted
  * @param opts The options for select query
  */
-export async function insertAll(
-  tableName: string,
-  rowDataArray: InsertRowData[],
-  opts: ConnectionOpts
+export async function insertAll<Schema extends object = RowData>(
+  table: string | TableDefinition<Schema>,
+  rowDataArray: ColumnValues<Schema>[],
+  opts: InsertOpts
 ): Promise<void> {
   const { conn } = opts;
+  const rowOpts = getTableRowOpts(table as string | TableDefinition, opts);
 
-  await conn(tableName).insert(rowDataArray);
+  const data = await callBeforeInsert(
+    rowDataArray as UpdateData[],
+    rowOpts,
+    opts
+  );
+  await insertRowData(
+    data.map((rowData) => withInsertTimestamps(rowData, conn, rowOpts)),
+    rowOpts,
+    opts
+  );
+  await callAfterInsert(data, rowOpts, opts);
 }
 
 /**
@@ -183,23 +985,570 @@ export async function insertAll(
  * In some supported databases (MySQL, SQLite), if the table has auto-increment
  * column, the value of the column will be returned. Otherwise, the return
  * value should be considered *unknown*, as different database drivers may
- * behave differently.
+ * behave differently. Use {@link insertRow} to retrieve the inserted row
+ * instead.
  *
  * Options:
  *
  * - `conn` *(required)*: the Knex connection object used for creating the query
+ * - `timestamps`, `clock`, `timeCreatedCol`, `timeUpdatedCol`: the timestamp options (default: the values from `table`, or the Row defaults)
+ * - `hooks`: the `beforeInsert` and `afterInsert` {@link TableHooks} (default: the value from `table`)
+ * - `audit`: the {@link AuditOpts} for recording the inserted rows into an audit log table (default: the value from `table`)
+ * - `codecs`: the {@link ColumnCodecs} for encoding the row data (default: the value from `table`)
+ *
+ * If a {@link TableDefinition} is provided instead of the table name, the row
+ * data is checked against the table schema.
  *
- * @param tableName The table name for new rows to be inserted
+ * If `audit` is provided, the row and its audit entry are inserted in a
+ * transaction (if `conn` is not a transaction already).
+ *
+ * @param table The table name (or table definition) for new rows to be inserted
  * @param rowData Row data to be inserted
  * @param opts The options for select query
  */
-export async function insert(
-  tableName: string,
-  rowData: InsertRowData,
-  opts: ConnectionOpts
+export async function insert<Schema extends object = RowData>(
+  table: string | TableDefinition<Schema>,
+  rowData: ColumnValues<Schema>,
+  opts: InsertOpts
 ): Promise<number> {
   const { conn } = opts;
+  const rowOpts = getTableRowOpts(table as string | TableDefinition, opts);
+
+  const data = await callBeforeInsert([rowData as UpdateData], rowOpts, opts);
+  const [id] = await insertRowData(
+    [withInsertTimestamps(data[0], conn, rowOpts)],
+    rowOpts,
+    opts
+  );
+  await callAfterInsert(data, rowOpts, opts);
 
-  const [id] = await conn(tableName).insert(rowData);
   return id;
 }
+
+/**
+ * The options for {@link insert} and the other insert functions.
+ */
+export type InsertOpts = ConnectionOpts & RowOpts;
+
+async function insertRowData(
+  rowDataArray: UpdateData[],
+  rowOpts: TableRowOpts,
+  opts: ConnectionOpts
+): Promise<number[]> {
+  const { conn } = opts;
+  const { tableName, audit, codecs } = rowOpts;
+
+  if (!audit) {
+    return (await mapDatabaseError(
+      tableName,
+      conn(tableName).insert(
+        rowDataArray.map((rowData) => encodeRowData(rowData, codecs))
+      )
+    )) as number[];
+  }
+
+  if (!conn.isTransaction) {
+    return conn.transaction((trx) =>
+      insertRowData(rowDataArray, rowOpts, { conn: trx })
+    );
+  }
+
+  const ids: number[] = [];
+  for (const rowData of rowDataArray) {
+    const [insertId] = (await mapDatabaseError(
+      tableName,
+      conn(tableName).insert(encodeRowData(rowData, codecs))
+    )) as number[];
+    await writeAuditEntry(conn, rowOpts, {
+      operation: "insert",
+      primaryKey: getInsertedPrimaryKey(rowData, insertId, rowOpts),
+      oldValues: null,
+      newValues: rowData,
+    });
+
+    ids.push(insertId);
+  }
+
+  return ids;
+}
+
+async function callBeforeInsert(
+  rowDataArray: UpdateData[],
+  rowOpts: TableRowOpts,
+  opts: ConnectionOpts
+): Promise<UpdateData[]> {
+  const { conn } = opts;
+  const { tableName, hooks } = rowOpts;
+
+  if (!hooks?.beforeInsert) {
+    return rowDataArray;
+  }
+
+  const data: UpdateData[] = [];
+  for (const rowData of rowDataArray) {
+    data.push(
+      (await hooks.beforeInsert({ conn, tableName, data: rowData })) ?? rowData
+    );
+  }
+
+  return data;
+}
+
+async function callAfterInsert(
+  rowDataArray: UpdateData[],
+  rowOpts: TableRowOpts,
+  opts: ConnectionOpts,
+  rows?: Row<IdType>[]
+): Promise<void> {
+  const { conn } = opts;
+  const { tableName, hooks } = rowOpts;
+
+  for (const [i, rowData] of rowDataArray.entries()) {
+    await hooks?.afterInsert?.({
+      conn,
+      tableName,
+      data: rowData,
+      row: rows?.[i],
+    });
+  }
+}
+
+/**
+ * Inserts multiple rows using INSERT query and returns the inserted rows as
+ * {@link Row} objects, including the values set by the database (e.g.
+ * auto-increment identifier and default values).
+ *
+ * Options:
+ *
+ * - `conn` *(required)*: the Knex connection object used for creating the query
+ * - `idCol`, `primaryCols`, `timeCreatedCol`, `timeUpdatedCol`, `timeDeletedCol`, `versionCol`, `hiddenCols`, `timestamps`, `clock`, `hooks`, `audit`, `codecs`, `relations`: the options passed to each {@link Row}
+ * - `rowClass`: the {@link RowClass} used for creating the rows, e.g. a subclass of {@link Row} (default: {@link Row})
+ *
+ * If the client supports `RETURNING` clause for insert queries (PostgreSQL,
+ * MSSQL, and SQLite 3.35 or later with `better-sqlite3`), the rows are inserted
+ * and retrieved in one query. Otherwise, the rows are inserted one at a time
+ * (in a transaction, if `conn` is not a transaction already) and retrieved by
+ * their primary key. The primary key values are taken from the
+ * row data, or from the auto-increment value for the identifier column. If
+ * `audit` is provided, the latter is always used and the transaction is also
+ * used for a single row.
+ *
+ * @param table The table name (or table definition) for new rows to be inserted
+ * @param rowDataArray Array of row data to be inserted
+ * @param opts The options for insert query
+ * @returns The inserted Row objects, in the same order
+ */
+export async function insertRows<
+  RowType extends Row<IdType, Schema>,
+  Schema extends object = RowData
+>(
+  table: string | TableDefinition<Schema>,
+  rowDataArray: ColumnValues<Schema>[],
+  opts: InsertOpts & Required<RowClassOpts<RowType>>
+): Promise<RowType[]>;
+export async function insertRows<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  table: TableDefinition<Schema, IdCol>,
+  rowDataArray: ColumnValues<Schema>[],
+  opts: InsertOpts
+): Promise<Row<RowId<Schema, IdCol>, Schema>[]>;
+export async function insertRows<T extends IdType = number>(
+  tableName: string,
+  rowDataArray: ColumnValues<RowData>[],
+  opts: InsertOpts
+): Promise<Row<T>[]>;
+export async function insertRows(
+  table: string | TableDefinition,
+  rowDataArray: UpdateData[],
+  opts: InsertOpts & RowClassOpts
+): Promise<Row<IdType>[]> {
+  return insertAndSelectRows(table, rowDataArray, opts);
+}
+
+/**
+ * Inserts a single row using INSERT query and returns the inserted row as a
+ * {@link Row} object.
+ *
+ * The function accepts the same options with {@link insertRows}.
+ *
+ * ```ts
+ * const row = await insertRow(
+ *   "kansen",
+ *   { key: "u_47", name: "U-47", score: 40 },
+ *   { conn }
+ * )
+ *
+ * console.log(row.id, row.timeCreated)
+ * ```
+ *
+ * @param table The table name (or table definition) for the new row to be inserted
+ * @param rowData Row data to be inserted
+ * @param opts The options for insert query
+ * @returns The inserted Row object
+ */
+export async function insertRow<
+  RowType extends Row<IdType, Schema>,
+  Schema extends object = RowData
+>(
+  table: string | TableDefinition<Schema>,
+  rowData: ColumnValues<Schema>,
+  opts: InsertOpts & Required<RowClassOpts<RowType>>
+): Promise<RowType>;
+export async function insertRow<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  table: TableDefinition<Schema, IdCol>,
+  rowData: ColumnValues<Schema>,
+  opts: InsertOpts
+): Promise<Row<RowId<Schema, IdCol>, Schema>>;
+export async function insertRow<T extends IdType = number>(
+  tableName: string,
+  rowData: ColumnValues<RowData>,
+  opts: InsertOpts
+): Promise<Row<T>>;
+export async function insertRow(
+  table: string | TableDefinition,
+  rowData: UpdateData,
+  opts: InsertOpts & RowClassOpts
+): Promise<Row<IdType>> {
+  const [row] = await insertAndSelectRows(table, [rowData], opts);
+  return row;
+}
+
+async function insertAndSelectRows(
+  table: string | TableDefinition,
+  data: UpdateData[],
+  opts: InsertOpts & RowClassOpts
+): Promise<Row<IdType>[]> {
+  const { conn } = opts;
+  const rowOpts = getTableRowOpts(table, opts);
+
+  if (data.length === 0) {
+    return [];
+  }
+
+  const hookData = await callBeforeInsert(data, rowOpts, opts);
+  const rowDataArray = hookData.map((rowData) =>
+    withInsertTimestamps(rowData, conn, rowOpts)
+  );
+
+  let insertedRowDataArray: RowData[];
+  if (!rowOpts.audit && (await supportsInsertReturning(conn))) {
+    insertedRowDataArray = (await mapDatabaseError(
+      rowOpts.tableName,
+      conn(rowOpts.tableName)
+        .insert(
+          rowDataArray.map((rowData) => encodeRowData(rowData, rowOpts.codecs))
+        )
+        .returning("*")
+    )) as RowData[];
+  } else {
+    insertedRowDataArray =
+      (rowDataArray.length > 1 || rowOpts.audit) && !conn.isTransaction
+        ? await conn.transaction((trx) =>
+            insertAndSelectRowData(rowDataArray, rowOpts, { conn: trx })
+          )
+        : await insertAndSelectRowData(rowDataArray, rowOpts, opts);
+  }
+
+  const rows = createRows(insertedRowDataArray, rowOpts, opts);
+  await callAfterInsert(hookData, rowOpts, opts, rows);
+
+  return rows;
+}
+
+async function insertAndSelectRowData(
+  rowDataArray: UpdateData[],
+  rowOpts: TableRowOpts,
+  opts: ConnectionOpts
+): Promise<RowData[]> {
+  const { conn } = opts;
+  const { tableName, codecs } = rowOpts;
+
+  const insertedRowDataArray: RowData[] = [];
+  for (const rowData of rowDataArray) {
+    const [insertId] = (await mapDatabaseError(
+      tableName,
+      conn(tableName).insert(encodeRowData(rowData, codecs))
+    )) as number[];
+    const primaryKey = getInsertedPrimaryKey(rowData, insertId, rowOpts);
+
+    const [insertedRowData] = (await mapDatabaseError(
+      tableName,
+      conn(tableName).where(encodeRowData(primaryKey, codecs))
+    )) as RowData[];
+    await writeAuditEntry(conn, rowOpts, {
+      operation: "insert",
+      primaryKey,
+      oldValues: null,
+      newValues: decodeRowData(insertedRowData, codecs),
+    });
+
+    insertedRowDataArray.push(insertedRowData);
+  }
+
+  return insertedRowDataArray;
+}
+
+function getInsertedPrimaryKey(
+  rowData: UpdateData,
+  insertId: number | undefined,
+  rowOpts: TableRowOpts
+): RowData {
+  const { tableName, idCol, primaryCols } = rowOpts;
+
+  const primaryKey: RowData = {};
+  for (const col of primaryCols) {
+    const value = rowData[col];
+
+    if (typeof value !== "undefined" && !isRaw(value)) {
+      primaryKey[col] = value;
+    } else if (col === idCol && insertId) {
+      primaryKey[col] = insertId;
+    } else {
+      throw new Error(
+        `Cannot determine the value of primary key column '${col}' for inserted row in table ${tableName}`
+      );
+    }
+  }
+
+  return primaryKey;
+}
+
+interface UpsertOpts<Schema extends object = RowData>
+  extends ConnectionOpts,
+    Omit<RowOpts, "audit"> {
+  conflictCols: ColumnName<Schema>[];
+  updateCols?: ColumnName<Schema>[];
+}
+
+/**
+ * The result of {@link upsert} for each row.
+ *
+ * @template RowType The type of row
+ */
+export interface UpsertResult<RowType> {
+  status: "inserted" | "updated";
+  row: RowType | null;
+}
+
+/**
+ * Inserts multiple rows, or updates the existing rows if they conflict with
+ * the unique columns (`INSERT ... ON CONFLICT DO UPDATE` in SQLite and
+ * PostgreSQL, `INSERT ... ON DUPLICATE KEY UPDATE` in MySQL).
+ *
+ * Options:
+ *
+ * - `conn` *(required)*: the Knex connection object used for creating the query
+ * - `conflictCols` *(required)*: the unique columns that identify a row; MySQL
+ *   uses every unique index of the table instead
+ * - `updateCols`: the columns to be updated if the row already exists (default: all inserted columns)
+ * - `idCol`, `primaryCols`, `timeCreatedCol`, `timeUpdatedCol`, `timeDeletedCol`, `versionCol`, `hiddenCols`, `timestamps`, `clock`, `hooks`, `codecs`, `relations`: the options passed to each {@link Row}
+ *
+ * The upserted rows are not recorded in the audit log (see {@link AuditOpts}),
+ * but the resulting rows use the `audit` option of the table definition.
+ *
+ * The result contains the status and the resulting {@link Row} for each row
+ * data, in the same order. The rows are retrieved by the values of
+ * `conflictCols`, so `row` is `null` if the row data does not contain them.
+ *
+ * If `timestamps` is enabled, the time updated column of existing rows is
+ * always updated, while the time created column is not updated unless it is
+ * listed in `updateCols`. If `versionCol` is provided, the version column of
+ * existing rows is incremented, like {@link updateAll}.
+ *
+ * The status is reported by the upsert query itself in PostgreSQL
+ * (`RETURNING (xmax = 0)`), and in MySQL for a single row with `versionCol`
+ * (the number of affected rows).
+ *
+ * Otherwise, the status is determined by checking the existing rows before
+ * the upsert. The upsert itself is atomic, but the status may be inaccurate if
+ * the same rows are written concurrently outside of a transaction.
+ *
+ * @param table The table name (or table definition) for rows to be upserted
+ * @param rowDataArray Array of row data to be upserted
+ * @param opts The options for upsert query
+ * @returns The upsert results for each row data
+ */
+export async function upsertAll<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  table: TableDefinition<Schema, IdCol>,
+  rowDataArray: ColumnValues<Schema>[],
+  opts: UpsertOpts<Schema>
+): Promise<UpsertResult<Row<RowId<Schema, IdCol>, Schema>>[]>;
+export async function upsertAll<T extends IdType = number>(
+  tableName: string,
+  rowDataArray: ColumnValues<RowData>[],
+  opts: UpsertOpts
+): Promise<UpsertResult<Row<T>>[]>;
+export async function upsertAll(
+  table: string | TableDefinition,
+  rowDataArray: UpdateData[],
+  opts: UpsertOpts
+): Promise<UpsertResult<Row<IdType>>[]> {
+  return upsertRows(table, rowDataArray, opts);
+}
+
+/**
+ * Inserts a single row, or updates the existing row if it conflicts with the
+ * unique columns.
+ *
+ * The function accepts the same options with {@link upsertAll}.
+ *
+ * ```ts
+ * const { status, row } = await upsert(
+ *   "kansen",
+ *   { key: "z23", name: "Z23", score: 30 },
+ *   { conn, conflictCols: ["key"], updateCols: ["score"] }
+ * )
+ * ```
+ *
+ * @param table The table name (or table definition) for the row to be upserted
+ * @param rowData Row data to be upserted
+ * @param opts The options for upsert query
+ * @returns The upsert result
+ */
+export async function upsert<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+>(
+  table: TableDefinition<Schema, IdCol>,
+  rowData: ColumnValues<Schema>,
+  opts: UpsertOpts<Schema>
+): Promise<UpsertResult<Row<RowId<Schema, IdCol>, Schema>>>;
+export async function upsert<T extends IdType = number>(
+  tableName: string,
+  rowData: ColumnValues<RowData>,
+  opts: UpsertOpts
+): Promise<UpsertResult<Row<T>>>;
+export async function upsert(
+  table: string | TableDefinition,
+  rowData: UpdateData,
+  opts: UpsertOpts
+): Promise<UpsertResult<Row<IdType>>> {
+  const [result] = await upsertRows(table, [rowData], opts);
+  return result;
+}
+
+async function upsertRows(
+  table: string | TableDefinition,
+  data: UpdateData[],
+  opts: UpsertOpts
+): Promise<UpsertResult<Row<IdType>>[]> {
+  const { conn, conflictCols, updateCols } = opts;
+  const rowOpts = getTableRowOpts(table, opts);
+  const { tableName, timestamps, timeCreatedCol, timeUpdatedCol, versionCol } =
+    rowOpts;
+
+  if (data.length === 0) {
+    return [];
+  }
+
+  const rowDataArray = data.map((rowData) =>
+    encodeRowData(withInsertTimestamps(rowData, conn, rowOpts), rowOpts.codecs)
+  );
+
+  const getKeyValues = (rowData: RowData): Knex.Value[] | null => {
+    const values = conflictCols.map((col) => rowData[col]);
+    const isKey = values.every(
+      (value) =>
+        value !== null &&
+        typeof value !== "undefined" &&
+        (typeof value !== "object" || value instanceof Date)
+    );
+
+    return isKey ? (values as Knex.Value[]) : null;
+  };
+  const getKey = (rowData: RowData): string | null => {
+    const values = getKeyValues(rowData);
+    return values && JSON.stringify(values.map(String));
+  };
+
+  const keyValuesArray = rowDataArray
+    .map(getKeyValues)
+    .filter((values): values is Knex.Value[] => values !== null);
+  const selectRowsByKey = async (): Promise<RowData[]> =>
+    keyValuesArray.length > 0
+      ? ((await mapDatabaseError(
+          tableName,
+          conn(tableName).whereIn(conflictCols, keyValuesArray)
+        )) as RowData[])
+      : [];
+
+  const mergeCols = new Set<string>(
+    updateCols ?? data.flatMap((rowData) => Object.keys(rowData))
+  );
+  if (timestamps) {
+    // The created timestamp of existing rows must not be overwritten
+    mergeCols.add(timeUpdatedCol);
+    if (!updateCols) {
+      mergeCols.delete(timeCreatedCol);
+    }
+  }
+
+  const mergeData: UpdateData = {};
+  for (const col of mergeCols) {
+    mergeData[col] = insertedValue(conn, col);
+  }
+  if (versionCol) {
+    mergeData[versionCol] = conn.raw("?? + 1", [`${tableName}.${versionCol}`]);
+  }
+
+  const query = conn(tableName)
+    .insert(rowDataArray)
+    .onConflict(conflictCols)
+    .merge(mergeData);
+
+  let isInserted: boolean[];
+  if (getDialect(conn) === "postgresql") {
+    const result = (await mapDatabaseError(
+      tableName,
+      query.returning(conn.raw("(xmax = 0) as ??", ["inserted"]))
+    )) as { inserted: boolean }[];
+
+    isInserted = result.map(({ inserted }) => inserted);
+  } else if (
+    getDialect(conn) === "mysql" &&
+    rowDataArray.length === 1 &&
+    versionCol
+  ) {
+    // An existing row whose values are not changed has the same number of
+    // affected rows as an inserted row with the FOUND_ROWS client flag (the
+    // mysql2 default), so this is only used if the version column guarantees
+    // that existing rows are changed
+    const { sql, bindings } = query.toSQL();
+    const [{ affectedRows }] = (await mapDatabaseError(
+      tableName,
+      conn.raw(sql, bindings)
+    )) as [{ affectedRows: number }];
+
+    isInserted = [affectedRows === 1];
+  } else {
+    const existingKeys = new Set((await selectRowsByKey()).map(getKey));
+    await mapDatabaseError(tableName, query);
+
+    isInserted = rowDataArray.map((rowData) => {
+      const key = getKey(rowData);
+      return !key || !existingKeys.has(key);
+    });
+  }
+
+  const rowDataByKey = new Map(
+    (await selectRowsByKey()).map((rowData) => [getKey(rowData), rowData])
+  );
+
+  return rowDataArray.map((data, i) => {
+    const key = getKey(data);
+    const rowData = key ? rowDataByKey.get(key) : undefined;
+
+    return {
+      status: isInserted[i] ? "inserted" : "updated",
+      row: rowData ? createRow(rowData, rowOpts, opts) : null,
+    };
+  });
+}
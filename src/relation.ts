@@ -0,0 +1,318 @@
+import { Knex } from "knex";
+import { Connection } from "./connection";
+import {
+  Row,
+  RowData,
+  RowOpts,
+  RowValue,
+  ID_COL,
+  TIME_DELETED_COL,
+} from "./row";
+import { TableDefinition } from "./table";
+import { mapDatabaseError } from "./errors";
+
+/**
+ * The related table of a {@link Relation}: a table name, a table definition,
+ * or a function that returns a table definition (for tables that refer to
+ * each other).
+ */
+export type RelatedTable<Schema extends object = RowData> =
+  | string
+  | TableDefinition<Schema>
+  | (() => TableDefinition<Schema>);
+
+/**
+ * A relation where the row has a column that refers to one row of the related
+ * table, created by {@link belongsTo}.
+ */
+export interface BelongsToRelation {
+  type: "belongsTo";
+  table: RelatedTable;
+  foreignKey: string;
+  targetKey?: string;
+}
+
+/**
+ * A relation where one row (or many rows) of the related table has a column
+ * that refers to the row, created by {@link hasOne} and {@link hasMany}.
+ */
+export interface HasRelation {
+  type: "hasOne" | "hasMany";
+  table: RelatedTable;
+  foreignKey: string;
+  localKey?: string;
+}
+
+/**
+ * A relation where the rows are related to the rows of the related table
+ * through a join table, created by {@link belongsToMany}.
+ */
+export interface BelongsToManyRelation {
+  type: "belongsToMany";
+  table: RelatedTable;
+  through: string;
+  foreignKey: string;
+  otherKey: string;
+  localKey?: string;
+  targetKey?: string;
+}
+
+/**
+ * A relation definition, created by {@link belongsTo}, {@link hasOne},
+ * {@link hasMany} or {@link belongsToMany}.
+ */
+export type Relation = BelongsToRelation | HasRelation | BelongsToManyRelation;
+
+/**
+ * The relations of a table, keyed by the relation names:
+ *
+ * ```ts
+ * const kansenTable = defineTable<KansenSchema>()({
+ *   tableName: "kansen",
+ *   relations: {
+ *     fleet: belongsTo(() => fleetTable, { foreignKey: "fleet_id" }),
+ *     skins: hasMany("skin", { foreignKey: "kansen_id" }),
+ *     tags: belongsToMany("tag", {
+ *       through: "kansen_tag",
+ *       foreignKey: "kansen_id",
+ *       otherKey: "tag_id",
+ *     }),
+ *   },
+ * })
+ *
+ * const [row] = await findAll({ conn, table: kansenTable, include: ["fleet"] })
+ * const fleet = row.getRelation<Row | null>("fleet")
+ * ```
+ */
+export interface Relations {
+  [name: string]: Relation;
+}
+
+/**
+ * The loaded value of a relation: a {@link Row} (or `null`) for `belongsTo`
+ * and `hasOne` relations, and an array of {@link Row} objects for `hasMany`
+ * and `belongsToMany` relations.
+ */
+export type RelationValue =
+  | Row<number | string>
+  | Row<number | string>[]
+  | null;
+
+/**
+ * Creates a relation where the row refers to one row of the related table.
+ *
+ * Options:
+ *
+ * - `foreignKey` *(required)*: the column of the row that refers to the related row
+ * - `targetKey`: the column of the related table that is referred (default: its `idCol`)
+ *
+ * @param table The related table
+ * @param opts The options for the relation
+ */
+export function belongsTo<Schema extends object>(
+  table: RelatedTable<Schema>,
+  opts: { foreignKey: string; targetKey?: string }
+): BelongsToRelation {
+  return { type: "belongsTo", table: table as RelatedTable, ...opts };
+}
+
+/**
+ * Creates a relation where one row of the related table refers to the row.
+ *
+ * Options:
+ *
+ * - `foreignKey` *(required)*: the column of the related table that refers to the row
+ * - `localKey`: the column of the row that is referred (default: `idCol` of the row)
+ *
+ * @param table The related table
+ * @param opts The options for the relation
+ */
+export function hasOne<Schema extends object>(
+  table: RelatedTable<Schema>,
+  opts: { foreignKey: string; localKey?: string }
+): HasRelation {
+  return { type: "hasOne", table: table as RelatedTable, ...opts };
+}
+
+/**
+ * Creates a relation where many rows of the related table refer to the row.
+ *
+ * The function accepts the same options with {@link hasOne}.
+ *
+ * @param table The related table
+ * @param opts The options for the relation
+ */
+export function hasMany<Schema extends object>(
+  table: RelatedTable<Schema>,
+  opts: { foreignKey: string; localKey?: string }
+): HasRelation {
+  return { type: "hasMany", table: table as RelatedTable, ...opts };
+}
+
+/**
+ * Creates a many-to-many relation through a join table.
+ *
+ * Options:
+ *
+ * - `through` *(required)*: the name of join table
+ * - `foreignKey` *(required)*: the column of join table that refers to the row
+ * - `otherKey` *(required)*: the column of join table that refers to the related row
+ * - `localKey`: the column of the row that is referred (default: `idCol` of the row)
+ * - `targetKey`: the column of the related table that is referred (default: its `idCol`)
+ *
+ * @param table The related table
+ * @param opts The options for the relation
+ */
+export function belongsToMany<Schema extends object>(
+  table: RelatedTable<Schema>,
+  opts: {
+    through: string;
+    foreignKey: string;
+    otherKey: string;
+    localKey?: string;
+    targetKey?: string;
+  }
+): BelongsToManyRelation {
+  return { type: "belongsToMany", table: table as RelatedTable, ...opts };
+}
+
+/**
+ * The alias of join table column that is selected together with the related
+ * rows of `belongsToMany` relations.
+ */
+const THROUGH_KEY = "__through_key";
+
+/**
+ * The options for loading relations.
+ *
+ * @internal
+ */
+export interface LoadRelationOpts {
+  conn: Connection;
+  includeDeleted?: boolean;
+}
+
+/**
+ * Loads a relation of the rows with one query, and sets the loaded value of
+ * each row.
+ *
+ * @internal
+ */
+export async function loadRelation(
+  rows: Row<number | string>[],
+  rowOpts: RowOpts & { tableName: string; idCol: string },
+  name: string,
+  opts: LoadRelationOpts
+): Promise<void> {
+  const { tableName, idCol, relations = {} } = rowOpts;
+  const { conn, includeDeleted = false } = opts;
+
+  const relation = relations[name];
+  if (!relation) {
+    throw new Error(`Relation '${name}' does not exist for table ${tableName}`);
+  }
+
+  const target = getRelatedTable(relation.table);
+  const sourceKey =
+    relation.type === "belongsTo"
+      ? relation.foreignKey
+      : relation.localKey ?? idCol;
+  const keys = uniqueKeys(rows.map((row) => row.getColumn(sourceKey)));
+
+  const query = conn(target.tableName).orderBy(
+    `${target.tableName}.${target.idCol}`
+  );
+  if (!includeDeleted) {
+    void query.whereNull(`${target.tableName}.${target.timeDeletedCol}`);
+  }
+
+  let keyCol: string;
+  switch (relation.type) {
+    case "belongsTo":
+      keyCol = relation.targetKey ?? target.idCol;
+      void query.whereIn(keyCol, keys);
+      break;
+    case "hasOne":
+    case "hasMany":
+      keyCol = relation.foreignKey;
+      void query.whereIn(keyCol, keys);
+      break;
+    case "belongsToMany": {
+      const { through, foreignKey, otherKey } = relation;
+      const targetKey = relation.targetKey ?? target.idCol;
+
+      keyCol = THROUGH_KEY;
+      void query
+        .select(`${target.tableName}.*`, {
+          [THROUGH_KEY]: `${through}.${foreignKey}`,
+        })
+        .join(
+          through,
+          `${through}.${otherKey}`,
+          `${target.tableName}.${targetKey}`
+        )
+        .whereIn(`${through}.${foreignKey}`, keys);
+      break;
+    }
+  }
+
+  const relatedRows = new Map<string, Row<number | string>[]>();
+  const rowDataArray =
+    keys.length > 0
+      ? ((await mapDatabaseError(target.tableName, query)) as RowData[])
+      : [];
+  for (const rowData of rowDataArray) {
+    const key = String(rowData[keyCol]);
+    delete rowData[THROUGH_KEY];
+
+    relatedRows.set(key, [
+      ...(relatedRows.get(key) ?? []),
+      new Row({ ...target, conn, rowData }),
+    ]);
+  }
+
+  for (const row of rows) {
+    const key = row.getColumn(sourceKey);
+    const related = isKey(key) ? relatedRows.get(String(key)) ?? [] : [];
+
+    row.setRelation(
+      name,
+      relation.type === "hasMany" || relation.type === "belongsToMany"
+        ? related
+        : related[0] ?? null
+    );
+  }
+}
+
+function getRelatedTable(table: RelatedTable): RowOpts & {
+  tableName: string;
+  idCol: string;
+  timeDeletedCol: string;
+} {
+  const definition = typeof table === "function" ? table() : table;
+
+  if (typeof definition === "string") {
+    return {
+      tableName: definition,
+      idCol: ID_COL,
+      timeDeletedCol: TIME_DELETED_COL,
+    };
+  }
+
+  return definition;
+}
+
+function isKey(value: RowValue): value is Knex.Value {
+  return value !== null && typeof value !== "undefined";
+}
+
+function uniqueKeys(values: RowValue[]): Knex.Value[] {
+  const keys = new Map<string, Knex.Value>();
+  for (const value of values) {
+    if (isKey(value)) {
+      keys.set(String(value), value);
+    }
+  }
+
+  return [...keys.values()];
+}
@@ -0,0 +1,272 @@
+import { Connection, ConnectionOpts } from "./connection";
+import {
+  BulkOpts,
+  CountAllOpts,
+  FindAllOpts,
+  FindOpts,
+  InsertOpts,
+  countAll,
+  deleteAllPermanently,
+  find,
+  findAll,
+  insert,
+  insertAll,
+  restoreAll,
+  softDeleteAll,
+  updateAll,
+} from "./query";
+import { Row, RowData, RowOpts, ID_COL } from "./row";
+import { ColumnName, ColumnValues, RowId, TableDefinition } from "./table";
+
+type IdType = number | string;
+
+/**
+ * The options of a {@link Repository} method: the options of the query
+ * function, where `conn` is optional and defaults to the repository
+ * connection.
+ */
+export type RepositoryOpts<Opts> = Omit<Opts, "conn"> & Partial<ConnectionOpts>;
+
+/**
+ * The type of identifier column used by {@link Repository}: `number` for
+ * untyped rows, or the type from the table schema.
+ */
+export type RepositoryId<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+> = string extends keyof Schema ? number : RowId<Schema, IdCol>;
+
+/**
+ * The class Repository wraps the query functions for one table, so the
+ * connection, the table name and the row options do not have to be repeated
+ * on every call:
+ *
+ * ```ts
+ * const kansenRepository = new Repository({ conn, table: kansenTable })
+ *
+ * const row = await kansenRepository.findById(3)
+ * const count = await kansenRepository.count({ where: { score: { gte: 40 } } })
+ * ```
+ *
+ * Every method accepts the same options with its query function, except that
+ * `conn` is optional and defaults to the connection of the repository. The
+ * connection can be provided to run the query in a transaction:
+ *
+ * ```ts
+ * await conn.transaction(async (trx) => {
+ *   const row = await kansenRepository.findById(3, { conn: trx })
+ *   await kansenRepository.insert({ key: "u_47", name: "U-47" }, { conn: trx })
+ * })
+ * ```
+ *
+ * @template Schema The column schema of the table (defaults to untyped row data)
+ * @template IdCol The name of identifier column
+ * @template Id The type of identifier column (defaults to `number` for untyped rows)
+ */
+export class Repository<
+  Schema extends object = RowData,
+  IdCol extends ColumnName<Schema> = ColumnName<Schema>,
+  Id extends IdType = RepositoryId<Schema, IdCol>
+> {
+  private readonly conn: Connection;
+  private readonly tableOpts: RowOpts & { tableName: string };
+
+  /**
+   * Creates a new Repository.
+   *
+   * Options:
+   *
+   * - `conn` *(required)*: the default Knex connection object used for creating the queries
+   * - `tableName` *(required)*: the table name
+   * - `table`: the {@link TableDefinition} of the table, can be used instead of `tableName`
+   * - `idCol`, `primaryCols`, `timeCreatedCol`, `timeUpdatedCol`, `timeDeletedCol`, `versionCol`, `hiddenCols`, `timestamps`, `clock`, `hooks`, `audit`, `codecs`, `relations`: the default options of the query functions (default: the values from `table`, or the Row defaults)
+   */
+  constructor(
+    opts: ConnectionOpts & RowOpts & { table: TableDefinition<Schema, IdCol> }
+  );
+  constructor(opts: ConnectionOpts & RowOpts & { tableName: string });
+  constructor(
+    opts: ConnectionOpts &
+      RowOpts & { tableName?: string; table?: TableDefinition<Schema, IdCol> }
+  ) {
+    const { conn, table, tableName, ...rowOpts } = opts;
+
+    this.conn = conn;
+    this.tableOpts = table
+      ? { ...(table as TableDefinition), ...rowOpts }
+      : { ...rowOpts, tableName: tableName as string };
+  }
+
+  /**
+   * The table name of the repository.
+   */
+  get tableName(): string {
+    return this.tableOpts.tableName;
+  }
+
+  /**
+   * Calls {@link findAll} for the table.
+   *
+   * @param opts The options for select query
+   * @returns An array of Row objects (possibly empty)
+   */
+  async findAll(
+    opts: RepositoryOpts<FindAllOpts<Schema>> = {}
+  ): Promise<Row<Id, Schema>[]> {
+    const rows = await findAll<Id>(this.getOpts(opts as FindAllOpts));
+    return rows as Row<Id, Schema>[];
+  }
+
+  /**
+   * Calls {@link find} for the table.
+   *
+   * @param opts The options for select query
+   * @returns A Row object or null
+   */
+  async find(
+    opts: RepositoryOpts<FindOpts<Schema>> = {}
+  ): Promise<Row<Id, Schema> | null> {
+    const row = await find<Id>(this.getOpts(opts as FindOpts));
+    return row as Row<Id, Schema> | null;
+  }
+
+  /**
+   * Returns the row whose identifier column has the value, or `null` if the
+   * row does not exist.
+   *
+   * The method accepts the same options with {@link Repository.find} except
+   * for `where`.
+   *
+   * @param id The identifier of the row
+   * @param opts The options for select query
+   * @returns A Row object or null
+   */
+  async findById(
+    id: Id,
+    opts: RepositoryOpts<Omit<FindOpts<Schema>, "where">> = {}
+  ): Promise<Row<Id, Schema> | null> {
+    const { idCol = ID_COL } = { ...this.tableOpts, ...opts };
+
+    const row = await find<Id>(
+      this.getOpts({ ...(opts as FindOpts), where: { [idCol]: id } })
+    );
+    return row as Row<Id, Schema> | null;
+  }
+
+  /**
+   * Calls {@link countAll} for the table.
+   *
+   * @param opts The options for count query
+   * @returns The number of rows
+   */
+  async count(
+    opts: RepositoryOpts<CountAllOpts<Schema>> = {}
+  ): Promise<number> {
+    return countAll(this.getOpts(opts as CountAllOpts));
+  }
+
+  /**
+   * Returns `true` if there is a row that matches the query, `false`
+   * otherwise.
+   *
+   * The method accepts the same options with {@link Repository.count}.
+   *
+   * @param opts The options for count query
+   */
+  async exists(
+    opts: RepositoryOpts<CountAllOpts<Schema>> = {}
+  ): Promise<boolean> {
+    return (await this.count(opts)) > 0;
+  }
+
+  /**
+   * Calls {@link insert} for the table.
+   *
+   * @param rowData Row data to be inserted
+   * @param opts The options for insert query
+   */
+  async insert(
+    rowData: ColumnValues<Schema>,
+    opts: RepositoryOpts<InsertOpts> = {}
+  ): Promise<number> {
+    const { tableName, ...insertOpts } = this.getOpts(opts);
+    return insert(tableName, rowData as ColumnValues<RowData>, insertOpts);
+  }
+
+  /**
+   * Calls {@link insertAll} for the table.
+   *
+   * @param rowDataArray Array of row data to be inserted
+   * @param opts The options for insert query
+   */
+  async insertAll(
+    rowDataArray: ColumnValues<Schema>[],
+    opts: RepositoryOpts<InsertOpts> = {}
+  ): Promise<void> {
+    const { tableName, ...insertOpts } = this.getOpts(opts);
+    await insertAll(
+      tableName,
+      rowDataArray as ColumnValues<RowData>[],
+      insertOpts
+    );
+  }
+
+  /**
+   * Calls {@link updateAll} for the table.
+   *
+   * @param data An object that contains the new column values
+   * @param opts The options for update query
+   * @returns The number of affected rows
+   */
+  async updateAll(
+    data: ColumnValues<Schema>,
+    opts: RepositoryOpts<BulkOpts<Schema>> = {}
+  ): Promise<number> {
+    return updateAll(
+      data as ColumnValues<RowData>,
+      this.getOpts(opts as BulkOpts)
+    );
+  }
+
+  /**
+   * Calls {@link softDeleteAll} for the table.
+   *
+   * @param opts The options for update query
+   * @returns The number of affected rows
+   */
+  async softDeleteAll(
+    opts: RepositoryOpts<BulkOpts<Schema>> = {}
+  ): Promise<number> {
+    return softDeleteAll(this.getOpts(opts as BulkOpts));
+  }
+
+  /**
+   * Calls {@link restoreAll} for the table.
+   *
+   * @param opts The options for update query
+   * @returns The number of affected rows
+   */
+  async restoreAll(
+    opts: RepositoryOpts<Omit<BulkOpts<Schema>, "includeDeleted">> = {}
+  ): Promise<number> {
+    return restoreAll(this.getOpts(opts as BulkOpts));
+  }
+
+  /**
+   * Calls {@link deleteAllPermanently} for the table.
+   *
+   * @param opts The options for delete query
+   * @returns The number of affected rows
+   */
+  async deleteAllPermanently(
+    opts: RepositoryOpts<BulkOpts<Schema>> = {}
+  ): Promise<number> {
+    return deleteAllPermanently(this.getOpts(opts as BulkOpts));
+  }
+
+  private getOpts<Opts extends Partial<ConnectionOpts>>(
+    opts: Opts
+  ): Opts & ConnectionOpts & { tableName: string } {
+    return { ...this.tableOpts, ...opts, conn: opts.conn ?? this.conn };
+  }
+}
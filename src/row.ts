@@ -1,5 +1,26 @@
 import { Knex } from "knex";
 import { Connection, ConnectionOpts } from ".";
+import { ColumnName, ColumnValues, UntypedColumnName } from "./table";
+import {
+  ColumnNotFoundError,
+  RowNotFoundError,
+  StaleRowError,
+  mapDatabaseError,
+} from "./errors";
+import { supportsReturning } from "./dialect";
+import { now, withUpdateTimestamp } from "./timestamp";
+import { DeleteHookContext, TableHooks } from "./hooks";
+import { AuditOperation, AuditOpts, writeAuditEntry } from "./audit";
+import {
+  ColumnCodecs,
+  decodeRowData,
+  encodeRowData,
+  isRaw,
+  toDate,
+} from "./codec";
+import { Relations, RelationValue, loadRelation } from "./relation";
+import { insertRow } from "./query";
+import { LockMode, applyLock } from "./lock";
 
 /**
  * @internal
@@ -27,10 +48,101 @@ export const TIME_UPDATED_COL = "time_updated";
  */
 export const TIME_DELETED_COL = "time_deleted";
 
-interface RowData {
+/**
+ * @internal
+ */
+export interface RowData {
   [key: string]: RowValue;
 }
 
+/**
+ * @internal
+ */
+export interface UpdateData {
+  [key: string]: RowValue | Knex.Raw;
+}
+
+/**
+ * @internal
+ */
+export interface RowSnapshot {
+  rowData: RowData;
+  changedData: UpdateData;
+}
+
+interface RefreshOpts {
+  refresh?: boolean;
+}
+
+interface ToObjectOpts<Schema extends object> {
+  pick?: ColumnName<Schema>[];
+  omit?: ColumnName<Schema>[];
+  rename?: { [Col in ColumnName<Schema>]?: string };
+}
+
+interface RowLockOpts {
+  mode?: LockMode;
+  noWait?: boolean;
+}
+
+interface DuplicateOpts<Schema extends object> {
+  overrides?: ColumnValues<Schema>;
+  omit?: ColumnName<Schema>[];
+}
+
+/**
+ * The options for configuring the columns used by {@link Row}.
+ *
+ * These options are accepted by the Row constructor and by query functions
+ * such as {@link findAll}, which forward them to each created row.
+ */
+export interface RowOpts {
+  idCol?: string;
+  timeCreatedCol?: string;
+  timeUpdatedCol?: string;
+  timeDeletedCol?: string;
+  primaryCols?: string[];
+  versionCol?: string;
+  hiddenCols?: string[];
+  timestamps?: boolean;
+  clock?: () => Date;
+  hooks?: TableHooks;
+  audit?: AuditOpts;
+  codecs?: ColumnCodecs;
+  relations?: Relations;
+}
+
+/**
+ * The options accepted by the {@link Row} constructor.
+ */
+export type RowConstructorOpts = ConnectionOpts &
+  RowOpts & {
+    tableName: string;
+    rowData: RowData;
+  };
+
+/**
+ * A class that creates row objects, usually a subclass of {@link Row} with
+ * getters for the table columns:
+ *
+ * ```ts
+ * class UserRow extends Row<number, UserSchema> {
+ *   get name(): string {
+ *     return this.getColumn("name")
+ *   }
+ * }
+ *
+ * const users = await findAll({ conn, table: userTable, rowClass: UserRow })
+ * console.log(users[0].name)
+ * ```
+ *
+ * The class is constructed with the same options as {@link Row}, including
+ * `idCol`, `primaryCols` and the timestamp columns.
+ *
+ * @template RowType The type of created rows
+ */
+export type RowClass<RowType> = new (opts: RowConstructorOpts) => RowType;
+
 /**
  * The class Row is intended to wrap over a Knex query row data and and a Knex
  * connection:
@@ -53,17 +165,44 @@ interface RowData {
  * is able to provide simple methods such as {@link Row.setColumn} to update
  * column data and {@link Row.deletePermanently} to delete row from table.
  *
+ * If the column schema is provided (usually from {@link defineTable}), column
+ * names and value types are checked at compile time:
+ *
+ * ```ts
+ * const row = new Row<number, KansenSchema>({ conn, tableName, rowData })
+ *
+ * // name is string
+ * const name = row.getColumn("name")
+ *
+ * // Compile error: score is a number
+ * await row.setColumns({ score: "high" })
+ * ```
+ *
  * @template IdType The type of identifier column (defaults to `number`)
+ * @template Schema The column schema of the table (defaults to untyped row data)
  */
-export class Row<IdType extends number | string = number> {
+export class Row<
+  IdType extends number | string = number,
+  Schema extends object = RowData
+> {
   private readonly initialConn: Connection;
   private readonly primaryCols: string[];
   private readonly tableName: string;
-  private readonly rowData: RowData;
+  private rowData: RowData;
   private readonly idCol: string;
   private readonly timeCreatedCol: string;
   private readonly timeUpdatedCol: string;
   private readonly timeDeletedCol: string;
+  private readonly versionCol?: string;
+  private readonly hiddenCols: string[];
+  private readonly timestamps: boolean;
+  private readonly clock?: () => Date;
+  private readonly hooks: TableHooks<Schema>;
+  private readonly audit?: AuditOpts;
+  private readonly codecs: ColumnCodecs;
+  private readonly relations: Relations;
+  private readonly loadedRelations: { [name: string]: RelationValue } = {};
+  private readonly changedData: UpdateData = {};
 
   private conn: Connection;
 
@@ -78,21 +217,24 @@ export class Row<IdType extends number | string = number> {
    * - `timeCreatedCol`: the name of row created timestamp column (default: {@link TIME_CREATED_COL})
    * - `timeUpdatedCol`: the name of row updated timestamp column (default: {@link TIME_UPDATED_COL})
    * - `timeDeletedCol`: the name of row deleted timestamp column (default: {@link TIME_DELETED_COL})
-   * - `primaryCols`: the name of identifier column (default: `[idCol]`)
+   * - `primaryCols`: the name of primary key columns (default: `[idCol]`)
+   * - `versionCol`: the name of version column for optimistic locking (default: none)
+   * - `hiddenCols`: the name of columns excluded from {@link Row.toObject} and {@link Row.toJSON} (default: none)
+   * - `timestamps`: whether to set the updated timestamp column on every update (default: `false`)
+   * - `clock`: the function that returns the current time for timestamps (default: database current timestamp)
+   * - `hooks`: the lifecycle {@link TableHooks} called by the row methods (default: none)
+   * - `audit`: the {@link AuditOpts} for recording changes from the row methods into an audit log table (default: none)
+   * - `codecs`: the {@link ColumnCodecs} for decoding the row data and encoding the updated values (default: none)
+   * - `relations`: the {@link Relations} that can be loaded with {@link Row.load} (default: none)
+   *
+   * If `versionCol` is provided, every update and delete query from the row
+   * only affects the row if the version column still has the loaded value, and
+   * update queries increment the version column. If the row has been modified
+   * or deleted in the meantime, {@link StaleRowError} will be thrown.
    *
    * @template IdType The type of identifier column (defaults to `number`)
    */
-  constructor(
-    opts: ConnectionOpts & {
-      tableName: string;
-      rowData: RowData;
-      idCol?: string;
-      timeCreatedCol?: string;
-      timeUpdatedCol?: string;
-      timeDeletedCol?: string;
-      primaryCols?: string[];
-    }
-  ) {
+  constructor(opts: RowConstructorOpts) {
     const {
       conn,
       tableName,
@@ -102,19 +244,35 @@ export class Row<IdType extends number | string = number> {
       timeUpdatedCol = TIME_UPDATED_COL,
       timeDeletedCol = TIME_DELETED_COL,
       primaryCols = [idCol],
+      versionCol,
+      hiddenCols = [],
+      timestamps = false,
+      clock,
+      hooks = {},
+      audit,
+      codecs = {},
+      relations = {},
     } = opts;
 
     this.initialConn = conn;
     this.conn = conn;
 
     this.tableName = tableName;
-    this.rowData = rowData;
+    this.rowData = decodeRowData(rowData, codecs);
 
     this.idCol = idCol;
     this.timeCreatedCol = timeCreatedCol;
     this.timeUpdatedCol = timeUpdatedCol;
     this.timeDeletedCol = timeDeletedCol;
     this.primaryCols = primaryCols;
+    this.versionCol = versionCol;
+    this.hiddenCols = hiddenCols;
+    this.timestamps = timestamps;
+    this.clock = clock;
+    this.hooks = hooks as TableHooks<Schema>;
+    this.audit = audit;
+    this.codecs = codecs;
+    this.relations = relations;
   }
 
   /**
@@ -150,10 +308,10 @@ export class Row<IdType extends number | string = number> {
    * Returns the value of the column from the row data.
    *
    * If the column does not exist in the row data (i.e. {@link Row.isColumn}
-   * returns `false`), an error will be thrown.
+   * returns `false`), a {@link ColumnNotFoundError} will be thrown.
    *
-   * The `ValueType` parameter allows the type to be inferred from usage, or
-   * to be overridden if necessary:
+   * For untyped rows, the `ValueType` parameter allows the type to be
+   * inferred from usage, or to be overridden if necessary:
    *
    * ```ts
    * // Type is inferred
@@ -163,46 +321,51 @@ export class Row<IdType extends number | string = number> {
    * const myName = row.getColumn<string>("name")
    * ```
    *
+   * For typed rows, the column name and the value type are taken from the
+   * column schema instead.
+   *
    * @param col The column name to be retrieved
    * @returns The column value
    * @template ValueType The expected column value type
    */
-  getColumn<ValueType extends RowValue>(col: string): ValueType {
-    if (!this.isColumn(col)) {
-      throw new Error(
-        `Column '${col}' does not exist for table ${this.tableName}`
-      );
-    }
-
-    return this.rowData[col] as ValueType;
+  getColumn<ValueType extends RowValue>(
+    col: UntypedColumnName<Schema>
+  ): ValueType;
+  getColumn<Col extends ColumnName<Schema>>(col: Col): Schema[Col];
+  getColumn(col: string): RowValue {
+    return this.getValue(col);
   }
 
   /**
    * Alias for `this.getColumn<IdType>(this.idCol)`.
    */
   get id(): IdType {
-    return this.getColumn<IdType>(this.idCol);
+    return this.getValue(this.idCol) as IdType;
   }
 
   /**
-   * Alias for `this.getColumn<Date>(this.timeCreatedCol)`.
+   * Returns the value of `this.timeCreatedCol` as a Date object, regardless of
+   * the type returned by the database driver (see {@link dateCodec}).
    */
   get timeCreated(): Date {
-    return this.getColumn<Date>(this.timeCreatedCol);
+    return this.getDate(this.timeCreatedCol);
   }
 
   /**
-   * Alias for `this.getColumn<Date>(this.timeUpdatedCol)`.
+   * Returns the value of `this.timeUpdatedCol` as a Date object, regardless of
+   * the type returned by the database driver (see {@link dateCodec}).
    */
   get timeUpdated(): Date {
-    return this.getColumn<Date>(this.timeUpdatedCol);
+    return this.getDate(this.timeUpdatedCol);
   }
 
   /**
-   * Alias for `this.getColumn<Date>(this.timeDeletedCol)`.
+   * Returns the value of `this.timeDeletedCol` as a Date object (or `null`),
+   * regardless of the type returned by the database driver (see
+   * {@link dateCodec}).
    */
   get timeDeleted(): Date {
-    return this.getColumn<Date>(this.timeDeletedCol);
+    return this.getDate(this.timeDeletedCol);
   }
 
   /**
@@ -233,12 +396,69 @@ export class Row<IdType extends number | string = number> {
     const key: RowData = {};
 
     for (const col of this.primaryCols) {
-      key[col] = this.getColumn(col);
+      key[col] = this.getValue(col);
     }
 
     return key;
   }
 
+  /**
+   * Returns a plain object of the row data, without the connection and other
+   * internal fields of the row. Columns in `hiddenCols` are always excluded,
+   * even if they are in `pick`.
+   *
+   * Options:
+   *
+   * - `pick`: the columns to be included (default: all columns of the row data)
+   * - `omit`: the columns to be excluded (default: none)
+   * - `rename`: an object that maps column names to the keys of the result (default: none)
+   *
+   * ```ts
+   * const user = row.toObject({
+   *   omit: ["time_deleted"],
+   *   rename: { time_created: "joinedAt" },
+   * })
+   * ```
+   *
+   * The timestamp columns are converted into Date objects in the same way as
+   * {@link Row.timeCreated}. If a column in `pick` does not exist in the row
+   * data, an error will be thrown.
+   *
+   * @param opts The options for the result
+   * @returns The column data of the row
+   */
+  toObject(opts: ToObjectOpts<Schema> = {}): RowData {
+    const { pick = Object.keys(this.rowData), omit = [], rename = {} } = opts;
+    const renamed = rename as { [col: string]: string | undefined };
+    const excludedCols: string[] = [...omit, ...this.hiddenCols];
+    const timeCols = [
+      this.timeCreatedCol,
+      this.timeUpdatedCol,
+      this.timeDeletedCol,
+    ];
+
+    const object: RowData = {};
+    for (const col of pick) {
+      if (excludedCols.includes(col)) {
+        continue;
+      }
+
+      object[renamed[col] ?? col] = timeCols.includes(col)
+        ? this.getDate(col)
+        : this.getValue(col);
+    }
+
+    return object;
+  }
+
+  /**
+   * Alias for `this.toObject()`, so `JSON.stringify(row)` only contains the
+   * column data (e.g. when the row is returned from an HTTP handler).
+   */
+  toJSON(): RowData {
+    return this.toObject();
+  }
+
   /**
    * Alias for `this.connection(this.tableName).where(this.primaryKey)`.
    *
@@ -264,21 +484,27 @@ export class Row<IdType extends number | string = number> {
   /**
    * Performs an update query and updates the row data.
    *
+   * Options:
+   *
+   * - `refresh`: whether to re-read the row data after the update, e.g. to
+   *   retrieve values from database triggers (default: `false`)
+   *
+   * If the client supports `RETURNING` clause (PostgreSQL, MSSQL), the row data
+   * is retrieved in the same query. Otherwise, {@link Row.reload} is called
+   * after the update.
+   *
+   * The columns updated with `Knex.Raw` values (including the database current
+   * timestamp for `timestamps`) are always re-read after the update, so the row
+   * data only contains the values stored in the database.
+   *
    * @param data An object whose keys are subset of row data keys that contains the new values
+   * @param opts The options for update query
    */
-  async setColumns(data: {
-    [key: string]: RowValue | Knex.Raw;
-  }): Promise<void> {
-    for (const key of Object.keys(data)) {
-      if (!this.isColumn(key)) {
-        throw new Error(
-          `Column '${key}' does not exist for table ${this.tableName}`
-        );
-      }
-    }
-
-    await this.query.update(data);
-    Object.assign(this.rowData, data);
+  async setColumns(
+    data: ColumnValues<Schema>,
+    opts: RefreshOpts = {}
+  ): Promise<void> {
+    await this.updateColumns(data, opts);
   }
 
   /**
@@ -287,29 +513,578 @@ export class Row<IdType extends number | string = number> {
    * @param col The column name to be updated
    * @param value The new column value
    */
-  async setColumn(col: string, value: RowValue): Promise<void> {
-    await this.setColumns({ [col]: value });
+  async setColumn<Col extends ColumnName<Schema>>(
+    col: Col,
+    value: Schema[Col]
+  ): Promise<void> {
+    await this.updateColumns({ [col]: value });
+  }
+
+  /**
+   * Stages a column change without executing an update query. The staged
+   * changes are written by {@link Row.save}, or discarded by
+   * {@link Row.revert}:
+   *
+   * ```ts
+   * row.set("name", "Z23 (Retrofit)")
+   * row.set("score", 40)
+   *
+   * console.log(row.changes)
+   * // { name: "Z23 (Retrofit)", score: 40 }
+   *
+   * // UPDATE my_table SET name = ?, score = ? WHERE id = ?
+   * await row.save()
+   * ```
+   *
+   * The staged value is not visible from {@link Row.getColumn} until the row is
+   * saved. Setting a column back to its current value removes the change.
+   *
+   * @param col The column name to be updated
+   * @param value The new column value
+   */
+  set<Col extends ColumnName<Schema>>(
+    col: Col,
+    value: Schema[Col] | Knex.Raw
+  ): void {
+    if (value === this.getValue(col)) {
+      delete this.changedData[col];
+      return;
+    }
+
+    this.changedData[col] = value;
+  }
+
+  /**
+   * Returns `true` if there are staged changes from {@link Row.set}, `false`
+   * otherwise.
+   */
+  get isDirty(): boolean {
+    return Object.keys(this.changedData).length > 0;
+  }
+
+  /**
+   * Returns a copy of the staged changes from {@link Row.set}.
+   */
+  get changes(): ColumnValues<Schema> {
+    return { ...this.changedData } as ColumnValues<Schema>;
+  }
+
+  /**
+   * Performs an update query with the staged changes and updates the row data.
+   * If there are no staged changes, no query will be executed.
+   *
+   * The saved changes are no longer staged after the update, even if the
+   * `beforeUpdate` hook returns data without some of the staged columns.
+   */
+  async save(): Promise<void> {
+    if (!this.isDirty) {
+      return;
+    }
+
+    const changes = { ...this.changedData };
+    await this.updateColumns(changes);
+
+    for (const [col, value] of Object.entries(changes)) {
+      if (this.changedData[col] === value) {
+        delete this.changedData[col];
+      }
+    }
+  }
+
+  /**
+   * Discards the staged changes from {@link Row.set}.
+   */
+  revert(): void {
+    for (const col of Object.keys(this.changedData)) {
+      delete this.changedData[col];
+    }
   }
 
   /**
    * Marks the row as soft-deleted, by setting the time deleted timestamp.
+   *
+   * Accepts the same options as {@link Row.setColumns}.
+   *
+   * @param opts The options for update query
    */
-  async delete(): Promise<void> {
-    await this.setColumns({ [this.timeDeletedCol]: this.connection.fn.now() });
+  async delete(opts: RefreshOpts = {}): Promise<void> {
+    const context = this.deleteHookContext(false);
+
+    await this.hooks.beforeDelete?.(context);
+    await this.writeColumns(
+      { [this.timeDeletedCol]: now(this.connection, this.rowOpts) },
+      opts,
+      "delete"
+    );
+    await this.hooks.afterDelete?.(context);
   }
 
   /**
    * Unmarks the row from being soft-deleted, by setting the time deleted
    * timestamp to `NULL`.
+   *
+   * Accepts the same options as {@link Row.setColumns}.
+   *
+   * @param opts The options for update query
+   */
+  async restore(opts: RefreshOpts = {}): Promise<void> {
+    await this.updateColumns({ [this.timeDeletedCol]: null }, opts, "restore");
+  }
+
+  /**
+   * Re-selects the row using {@link Row.query} and replaces the row data.
+   *
+   * If the row no longer exists in the table, a {@link RowNotFoundError} will
+   * be thrown.
+   */
+  async reload(): Promise<void> {
+    const [rowData] = (await mapDatabaseError(
+      this.tableName,
+      this.query
+    )) as RowData[];
+    this.replaceRowData(rowData);
+  }
+
+  /**
+   * Re-selects the row using {@link Row.query} with a row lock, which is held
+   * until the end of the transaction, and replaces the row data.
+   *
+   * Options:
+   *
+   * - `mode`: the {@link LockMode} of the row (default: `update`)
+   * - `noWait`: whether to fail immediately if the row is locked by other transactions (default: `false`)
+   *
+   * The row connection must be a transaction, e.g. by using
+   * {@link withTransaction} or setting {@link Row.connection}:
+   *
+   * ```ts
+   * await withTransaction(conn, async () => {
+   *   // SELECT * FROM my_table WHERE id = ? FOR UPDATE
+   *   await row.lock()
+   *   await row.setColumns({ score: row.getColumn("score") + 10 })
+   * }, { rows: [row] })
+   * ```
+   *
+   * An error will be thrown if the connection is not a transaction, or if the
+   * row no longer exists in the table. See {@link LockOpts} for the supported
+   * databases; for other databases (e.g. SQLite) the row is only reloaded.
+   *
+   * @param opts The options for the lock
    */
-  async restore(): Promise<void> {
-    await this.setColumns({ [this.timeDeletedCol]: null });
+  async lock(opts: RowLockOpts = {}): Promise<void> {
+    const { mode = "update", noWait } = opts;
+
+    const query = this.query;
+    applyLock(query, this.connection, this.tableName, { lock: mode, noWait });
+
+    const [rowData] = (await mapDatabaseError(
+      this.tableName,
+      query
+    )) as RowData[];
+    this.replaceRowData(rowData);
   }
 
   /**
    * Permanently removes a row from the table by executing a delete query.
    */
   async deletePermanently(): Promise<void> {
-    await this.query.delete();
+    const context = this.deleteHookContext(true);
+
+    await this.hooks.beforeDelete?.(context);
+    await this.withAuditTransaction(async () => {
+      const count = await mapDatabaseError(
+        this.tableName,
+        this.writeQuery.delete()
+      );
+      this.checkVersion(count);
+      await this.recordChange("deletePermanently", { ...this.rowData }, null);
+    });
+    await this.hooks.afterDelete?.(context);
+  }
+
+  /**
+   * Inserts a copy of the row into the same table and returns the new row.
+   *
+   * Options:
+   *
+   * - `overrides`: the column values of the new row that replace the copied values (default: none)
+   * - `omit`: the columns that are not copied, so the database defaults are used (default: none)
+   *
+   * The primary key columns (`idCol` and `primaryCols`), the timestamp
+   * columns and `versionCol` are never copied, so they are generated for the
+   * new row unless provided in `overrides`:
+   *
+   * ```ts
+   * const draft = await row.duplicate({ overrides: { name: "Z23 (Draft)" } })
+   *
+   * console.log(draft.id !== row.id)
+   * // true
+   * ```
+   *
+   * The row is inserted with {@link insertRow} using the connection and the
+   * options of this row, so the insert hooks, audit log and codecs of the
+   * table are applied. The new row is created with the class of this row
+   * (see {@link RowClass}).
+   *
+   * @param opts The options for the new row
+   * @returns The inserted Row object
+   */
+  async duplicate(opts: DuplicateOpts<Schema> = {}): Promise<this> {
+    const { overrides = {}, omit = [] } = opts;
+    const excludedCols: string[] = [
+      this.idCol,
+      ...this.primaryCols,
+      this.timeCreatedCol,
+      this.timeUpdatedCol,
+      this.timeDeletedCol,
+      ...(this.versionCol ? [this.versionCol] : []),
+      ...omit,
+    ];
+
+    const data: UpdateData = {};
+    for (const [col, value] of Object.entries(this.rowData)) {
+      if (!excludedCols.includes(col)) {
+        data[col] = value;
+      }
+    }
+
+    const row = await insertRow(
+      this.tableName,
+      { ...data, ...overrides },
+      {
+        ...this.rowOpts,
+        conn: this.connection,
+        rowClass: this.constructor as RowClass<Row<IdType>>,
+      }
+    );
+
+    return row as this;
+  }
+
+  /**
+   * Loads a relation of the row (see {@link Relations}) and returns the loaded
+   * value, which can also be retrieved later with {@link Row.getRelation}.
+   *
+   * Options:
+   *
+   * - `includeDeleted`: whether to include soft-deleted related rows (default: `false`)
+   *
+   * An error will be thrown if the relation does not exist. Like
+   * {@link Row.getColumn}, the `ValueType` parameter can be used to specify
+   * the type of loaded value:
+   *
+   * ```ts
+   * const fleet = await row.load<Row | null>("fleet")
+   * const skins = await row.load<Row[]>("skins")
+   * ```
+   *
+   * @param name The name of relation
+   * @param opts The options for loading the relation
+   * @returns The loaded value
+   * @template ValueType The expected type of loaded value
+   */
+  async load<ValueType extends RelationValue = RelationValue>(
+    name: string,
+    opts: { includeDeleted?: boolean } = {}
+  ): Promise<ValueType> {
+    await loadRelation(
+      [this as Row<number | string>],
+      { ...this.rowOpts, tableName: this.tableName, idCol: this.idCol },
+      name,
+      { ...opts, conn: this.connection }
+    );
+
+    return this.getRelation<ValueType>(name);
+  }
+
+  /**
+   * Returns the value of a relation that is loaded by {@link Row.load} or by
+   * the `include` option of {@link findAll}.
+   *
+   * If the relation has not been loaded, an error will be thrown.
+   *
+   * @param name The name of relation
+   * @returns The loaded value
+   * @template ValueType The expected type of loaded value
+   */
+  getRelation<ValueType extends RelationValue = RelationValue>(
+    name: string
+  ): ValueType {
+    if (!(name in this.loadedRelations)) {
+      throw new Error(
+        `Relation '${name}' is not loaded for table ${this.tableName}`
+      );
+    }
+
+    return this.loadedRelations[name] as ValueType;
+  }
+
+  /**
+   * Sets the loaded value of a relation.
+   *
+   * @internal
+   */
+  setRelation(name: string, value: RelationValue): void {
+    this.loadedRelations[name] = value;
+  }
+
+  /**
+   * Returns a copy of the row data and the staged changes, which can be
+   * restored with {@link Row.restoreSnapshot}.
+   *
+   * @internal
+   */
+  snapshot(): RowSnapshot {
+    return {
+      rowData: { ...this.rowData },
+      changedData: { ...this.changedData },
+    };
+  }
+
+  /**
+   * Replaces the row data and the staged changes with a snapshot from
+   * {@link Row.snapshot}, e.g. after the transaction that updated the row is
+   * rolled back.
+   *
+   * @internal
+   */
+  restoreSnapshot(snapshot: RowSnapshot): void {
+    this.rowData = { ...snapshot.rowData };
+
+    this.revert();
+    Object.assign(this.changedData, snapshot.changedData);
+  }
+
+  private get rowOpts(): RowOpts {
+    return {
+      idCol: this.idCol,
+      timeCreatedCol: this.timeCreatedCol,
+      timeUpdatedCol: this.timeUpdatedCol,
+      timeDeletedCol: this.timeDeletedCol,
+      primaryCols: this.primaryCols,
+      versionCol: this.versionCol,
+      hiddenCols: this.hiddenCols,
+      timestamps: this.timestamps,
+      clock: this.clock,
+      hooks: this.hooks as TableHooks,
+      audit: this.audit,
+      codecs: this.codecs,
+      relations: this.relations,
+    };
+  }
+
+  private getValue(col: string): RowValue {
+    if (!this.isColumn(col)) {
+      throw new ColumnNotFoundError({ tableName: this.tableName, column: col });
+    }
+
+    return this.rowData[col];
+  }
+
+  private getDate(col: string): Date {
+    const value = this.getValue(col);
+    return (value === null ? value : toDate(value)) as Date;
+  }
+
+  private async updateColumns(
+    data: UpdateData,
+    opts: RefreshOpts = {},
+    operation: AuditOperation = "update"
+  ): Promise<void> {
+    const context = {
+      conn: this.connection,
+      tableName: this.tableName,
+      row: this,
+      data: data as ColumnValues<Schema>,
+    };
+
+    context.data = (await this.hooks.beforeUpdate?.(context)) ?? context.data;
+    await this.writeColumns(context.data as UpdateData, opts, operation);
+    await this.hooks.afterUpdate?.(context);
+  }
+
+  private deleteHookContext(permanent: boolean): DeleteHookContext<Schema> {
+    return {
+      conn: this.connection,
+      tableName: this.tableName,
+      row: this,
+      permanent,
+    };
+  }
+
+  private async writeColumns(
+    data: UpdateData,
+    opts: RefreshOpts,
+    operation: AuditOperation
+  ): Promise<void> {
+    await this.withAuditTransaction(() =>
+      this.updateAndRecord(data, opts, operation)
+    );
+  }
+
+  /**
+   * Runs the write and its audit entry in a transaction if `audit` is provided
+   * and the connection is not a transaction already, so a failed audit entry
+   * also rolls back the write. The row data is restored if it is rolled back.
+   */
+  private async withAuditTransaction(fn: () => Promise<void>): Promise<void> {
+    const conn = this.connection;
+    if (!this.audit || conn.isTransaction) {
+      await fn();
+      return;
+    }
+
+    const snapshot = this.snapshot();
+    try {
+      await conn.transaction(async (trx) => {
+        this.conn = trx;
+        try {
+          await fn();
+        } finally {
+          this.conn = conn;
+        }
+      });
+    } catch (error) {
+      this.restoreSnapshot(snapshot);
+      throw error;
+    }
+  }
+
+  private async updateAndRecord(
+    data: UpdateData,
+    opts: RefreshOpts,
+    operation: AuditOperation
+  ): Promise<void> {
+    const { refresh = false } = opts;
+
+    for (const key of Object.keys(data)) {
+      if (!this.isColumn(key)) {
+        throw new ColumnNotFoundError({
+          tableName: this.tableName,
+          column: key,
+        });
+      }
+    }
+
+    const updateData = withUpdateTimestamp(data, this.connection, this.rowOpts);
+    if (this.versionCol) {
+      updateData[this.versionCol] = this.version + 1;
+    }
+
+    const primaryKey = this.primaryKey;
+    const oldValues: RowData = {};
+    for (const key of Object.keys(updateData)) {
+      oldValues[key] = this.rowData[key];
+    }
+
+    // Values from `Knex.Raw` (e.g. the database current timestamp) are only
+    // known after the update, so the columns are re-read instead of storing
+    // the raw queries in the row data
+    const rawCols = Object.keys(updateData).filter((key) =>
+      isRaw(updateData[key])
+    );
+
+    if ((refresh || rawCols.length > 0) && supportsReturning(this.connection)) {
+      const rows = (await mapDatabaseError(
+        this.tableName,
+        this.writeQuery
+          .update(encodeRowData(updateData, this.codecs))
+          .returning("*")
+      )) as RowData[];
+      this.checkVersion(rows.length);
+
+      this.replaceRowData(rows[0]);
+    } else {
+      const count = await mapDatabaseError(
+        this.tableName,
+        this.writeQuery.update(encodeRowData(updateData, this.codecs))
+      );
+      this.checkVersion(count);
+
+      for (const [key, value] of Object.entries(updateData)) {
+        if (!isRaw(value)) {
+          this.rowData[key] = value;
+        }
+      }
+
+      if (refresh) {
+        await this.reload();
+      } else if (rawCols.length > 0) {
+        await this.reloadColumns(rawCols);
+      }
+    }
+
+    const newValues: RowData = {};
+    for (const key of Object.keys(updateData)) {
+      newValues[key] = this.rowData[key];
+    }
+    await this.recordChange(operation, oldValues, newValues, primaryKey);
+
+    for (const key of Object.keys(data)) {
+      delete this.changedData[key];
+    }
+  }
+
+  private async recordChange(
+    operation: AuditOperation,
+    oldValues: RowData | null,
+    newValues: RowData | null,
+    primaryKey: RowData = this.primaryKey
+  ): Promise<void> {
+    await writeAuditEntry(
+      this.connection,
+      { ...this.rowOpts, tableName: this.tableName },
+      { operation, primaryKey, oldValues, newValues }
+    );
+  }
+
+  private async reloadColumns(cols: string[]): Promise<void> {
+    const [rowData] = (await mapDatabaseError(
+      this.tableName,
+      this.query.select(cols)
+    )) as RowData[];
+    if (!rowData) {
+      throw new RowNotFoundError({
+        tableName: this.tableName,
+        primaryKey: this.primaryKey,
+      });
+    }
+
+    Object.assign(this.rowData, decodeRowData(rowData, this.codecs));
+  }
+
+  private replaceRowData(rowData: RowData | undefined): void {
+    if (!rowData) {
+      throw new RowNotFoundError({
+        tableName: this.tableName,
+        primaryKey: this.primaryKey,
+      });
+    }
+
+    this.rowData = decodeRowData(rowData, this.codecs);
+  }
+
+  private get version(): number {
+    return this.getValue(this.versionCol as string) as number;
+  }
+
+  private get writeQuery(): Knex.QueryBuilder {
+    const query = this.query;
+
+    if (this.versionCol) {
+      void query.where(this.versionCol, this.version);
+    }
+
+    return query;
+  }
+
+  private checkVersion(count: number): void {
+    if (this.versionCol && count === 0) {
+      throw new StaleRowError({
+        tableName: this.tableName,
+        primaryKey: this.primaryKey,
+        version: this.version,
+      });
+    }
   }
 }
@@ -0,0 +1,185 @@
+import { Knex } from "knex";
+import {
+  RowData,
+  ID_COL,
+  TIME_CREATED_COL,
+  TIME_UPDATED_COL,
+  TIME_DELETED_COL,
+} from "./row";
+import { TableHooks } from "./hooks";
+import { AuditOpts } from "./audit";
+import { ColumnCodecs } from "./codec";
+import { Relations } from "./relation";
+
+/**
+ * The column names of a table schema.
+ *
+ * For untyped rows (i.e. the schema is {@link RowData}), this is `string`.
+ */
+export type ColumnName<Schema extends object> = keyof Schema & string;
+
+/**
+ * An object whose keys are a subset of the table schema columns, used for
+ * writing column values (e.g. {@link Row.setColumns} and {@link insert}).
+ *
+ * `Knex.Raw` values are allowed for database-side expressions such as
+ * `conn.fn.now()`.
+ */
+export type ColumnValues<Schema extends object> = {
+  [Col in ColumnName<Schema>]?: Schema[Col] | Knex.Raw;
+};
+
+/**
+ * The type of identifier column value from a table schema.
+ */
+export type RowId<
+  Schema extends object,
+  IdCol extends ColumnName<Schema>
+> = Extract<Schema[IdCol], number | string>;
+
+/**
+ * Resolves to `string` for untyped schema ({@link RowData}) and `never` for
+ * typed schema, which disables the untyped overloads for typed schema.
+ *
+ * @internal
+ */
+export type UntypedColumnName<Schema extends object> =
+  string extends keyof Schema ? string : never;
+
+/**
+ * A table definition created by {@link defineTable}.
+ *
+ * @template Schema The column schema of the table
+ * @template IdCol The name of identifier column
+ */
+export interface TableDefinition<
+  Schema extends object = RowData,
+  IdCol extends ColumnName<Schema> = ColumnName<Schema>
+> {
+  readonly tableName: string;
+  readonly idCol: IdCol;
+  readonly primaryCols: ColumnName<Schema>[];
+  readonly timeCreatedCol: string;
+  readonly timeUpdatedCol: string;
+  readonly timeDeletedCol: string;
+  readonly versionCol?: string;
+  readonly hiddenCols: ColumnName<Schema>[];
+  readonly timestamps: boolean;
+  readonly clock?: () => Date;
+  readonly hooks: TableHooks<Schema>;
+  readonly audit?: AuditOpts;
+  readonly codecs: ColumnCodecs<Schema>;
+  readonly relations: Relations;
+
+  /**
+   * This field only exists for type inference and is always `undefined`.
+   *
+   * @internal
+   */
+  readonly schema?: Schema;
+}
+
+/**
+ * Creates a {@link TableDefinition} for a table schema.
+ *
+ * The schema type is provided in the first call, while the options are
+ * provided in the second call so the identifier column can be inferred:
+ *
+ * ```ts
+ * interface KansenSchema {
+ *   id: number;
+ *   time_created: Date;
+ *   time_updated: Date;
+ *   time_deleted: Date | null;
+ *   key: string;
+ *   name: string;
+ *   score: number;
+ * }
+ *
+ * const kansenTable = defineTable<KansenSchema>()({ tableName: "kansen" })
+ *
+ * const rows = await findAll({ conn, table: kansenTable })
+ *
+ * // name is string
+ * const name = rows[0].getColumn("name")
+ *
+ * // Compile error: misspelled column
+ * rows[0].getColumn("nmae")
+ * ```
+ *
+ * Options:
+ *
+ * - `tableName` *(required)*: the table name
+ * - `idCol`: the name of identifier column (default: {@link ID_COL})
+ * - `primaryCols`: the name of primary key columns (default: `[idCol]`)
+ * - `timeCreatedCol`: the name of row created timestamp column (default: {@link TIME_CREATED_COL})
+ * - `timeUpdatedCol`: the name of row updated timestamp column (default: {@link TIME_UPDATED_COL})
+ * - `timeDeletedCol`: the name of row deleted timestamp column (default: {@link TIME_DELETED_COL})
+ * - `versionCol`: the name of version column for optimistic locking (default: none)
+ * - `hiddenCols`: the name of columns that are never serialized, e.g. password hashes (default: none)
+ * - `timestamps`: whether to set the timestamp columns automatically on insert and update (default: `false`)
+ * - `clock`: the function that returns the current time for timestamps (default: database current timestamp)
+ * - `hooks`: the lifecycle {@link TableHooks} of the table (default: none)
+ * - `audit`: the {@link AuditOpts} for recording row changes into an audit log table (default: none)
+ * - `codecs`: the {@link ColumnCodecs} for converting column values on read and write (default: none)
+ * - `relations`: the {@link Relations} to other tables (default: none)
+ *
+ * @template Schema The column schema of the table
+ */
+export function defineTable<Schema extends object>() {
+  return <
+    IdCol extends ColumnName<Schema> = Extract<
+      typeof ID_COL,
+      ColumnName<Schema>
+    >
+  >(opts: {
+    tableName: string;
+    idCol?: IdCol;
+    primaryCols?: ColumnName<Schema>[];
+    timeCreatedCol?: ColumnName<Schema>;
+    timeUpdatedCol?: ColumnName<Schema>;
+    timeDeletedCol?: ColumnName<Schema>;
+    versionCol?: ColumnName<Schema>;
+    hiddenCols?: ColumnName<Schema>[];
+    timestamps?: boolean;
+    clock?: () => Date;
+    hooks?: TableHooks<Schema>;
+    audit?: AuditOpts;
+    codecs?: ColumnCodecs<Schema>;
+    relations?: Relations;
+  }): TableDefinition<Schema, IdCol> => {
+    const {
+      tableName,
+      idCol = ID_COL as IdCol,
+      primaryCols = [idCol],
+      timeCreatedCol = TIME_CREATED_COL,
+      timeUpdatedCol = TIME_UPDATED_COL,
+      timeDeletedCol = TIME_DELETED_COL,
+      versionCol,
+      hiddenCols = [],
+      timestamps = false,
+      clock,
+      hooks = {},
+      audit,
+      codecs = {},
+      relations = {},
+    } = opts;
+
+    return {
+      tableName,
+      idCol,
+      primaryCols,
+      timeCreatedCol,
+      timeUpdatedCol,
+      timeDeletedCol,
+      versionCol,
+      hiddenCols,
+      timestamps,
+      clock,
+      hooks,
+      audit,
+      codecs,
+      relations,
+    };
+  };
+}
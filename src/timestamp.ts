@@ -0,0 +1,64 @@
+import { Knex } from "knex";
+import { Connection } from "./connection";
+import { RowOpts, UpdateData, TIME_CREATED_COL, TIME_UPDATED_COL } from "./row";
+
+/**
+ * Returns the current timestamp from the `clock` option, or the database
+ * current timestamp (`conn.fn.now()`) if there is no clock.
+ *
+ * @internal
+ */
+export function now(conn: Connection, opts: RowOpts): Date | Knex.Raw {
+  const { clock } = opts;
+  return clock ? clock() : conn.fn.now();
+}
+
+/**
+ * Returns the row data with the created and updated timestamps if the
+ * `timestamps` option is enabled. Timestamps already in the row data are not
+ * replaced.
+ *
+ * @internal
+ */
+export function withInsertTimestamps(
+  rowData: UpdateData,
+  conn: Connection,
+  opts: RowOpts
+): UpdateData {
+  const {
+    timestamps = false,
+    timeCreatedCol = TIME_CREATED_COL,
+    timeUpdatedCol = TIME_UPDATED_COL,
+  } = opts;
+
+  if (!timestamps) {
+    return rowData;
+  }
+
+  const time = now(conn, opts);
+  return { [timeCreatedCol]: time, [timeUpdatedCol]: time, ...rowData };
+}
+
+/**
+ * Returns a copy of the update data, with the updated timestamp if the
+ * `timestamps` option is enabled. The timestamp already in the update data is
+ * not replaced.
+ *
+ * The copy can be modified (e.g. by adding the version column) without
+ * modifying the data passed by the caller.
+ *
+ * @internal
+ */
+export function withUpdateTimestamp(
+  data: UpdateData,
+  conn: Connection,
+  opts: RowOpts
+): UpdateData {
+  const { timestamps = false, timeUpdatedCol = TIME_UPDATED_COL } = opts;
+
+  if (!timestamps) {
+    return { ...data };
+  }
+
+  return { [timeUpdatedCol]: now(conn, opts), ...data };
+}
@@ -0,0 +1,152 @@
+import { Knex } from "knex";
+import { Connection } from "./connection";
+import { isRetryableError } from "./dialect";
+import { Row } from "./row";
+
+/**
+ * The default number of retries in {@link withTransaction}.
+ */
+export const DEFAULT_TRANSACTION_RETRIES = 3;
+
+/**
+ * The default delay in milliseconds before the first retry in
+ * {@link withTransaction}.
+ */
+export const DEFAULT_RETRY_DELAY = 50;
+
+/**
+ * The options for {@link withTransaction}.
+ */
+export interface TransactionOpts {
+  retries?: number;
+  retryDelay?: number;
+  isolationLevel?: Knex.IsolationLevels;
+  rows?: TransactionRow[];
+}
+
+type TransactionRow = Pick<
+  Row<number | string, object>,
+  "connection" | "snapshot" | "restoreSnapshot"
+>;
+
+/**
+ * Runs the callback in a transaction, which is committed if the callback
+ * resolves and rolled back if the callback rejects:
+ *
+ * ```ts
+ * const id = await withTransaction(conn, async (trx) => {
+ *   const id = await insert("kansen", { key: "u_47", name: "U-47" }, { conn: trx })
+ *   await updateAll({ score: 0 }, { conn: trx, tableName: "kansen" })
+ *
+ *   return id
+ * })
+ * ```
+ *
+ * Options:
+ *
+ * - `retries`: the maximum number of retries if the transaction fails because of a deadlock (MySQL) or a locked database (SQLite) (default: {@link DEFAULT_TRANSACTION_RETRIES})
+ * - `retryDelay`: the delay in milliseconds before the first retry, which is doubled for each next retry (default: {@link DEFAULT_RETRY_DELAY})
+ * - `isolationLevel`: the isolation level of the transaction (default: the database default)
+ * - `rows`: the {@link Row} objects whose connection is set to the transaction while the callback runs (default: none)
+ *
+ * If `conn` is already a transaction, a nested transaction is created using a
+ * savepoint, so only the changes from the callback are rolled back if it
+ * rejects. The callback is not retried in this case, because a deadlock
+ * aborts the outer transaction, and `isolationLevel` is ignored.
+ *
+ * The connection of each row in `rows` is restored when the callback
+ * resolves or rejects, so the rows can be updated in the transaction without
+ * passing the transaction object around. If the transaction is rolled back,
+ * the row data and staged changes of the rows are also restored to their state
+ * before the callback, so a retried callback starts from the same values:
+ *
+ * ```ts
+ * await withTransaction(
+ *   conn,
+ *   async () => {
+ *     await fromRow.setColumns({ score: fromRow.getColumn("score") - 10 })
+ *     await toRow.setColumns({ score: toRow.getColumn("score") + 10 })
+ *   },
+ *   { rows: [fromRow, toRow] }
+ * )
+ * ```
+ *
+ * @param conn The connection used for creating the transaction
+ * @param fn The callback that receives the transaction object
+ * @param opts The options for the transaction
+ * @returns The value resolved by the callback
+ */
+export async function withTransaction<T>(
+  conn: Connection,
+  fn: (trx: Knex.Transaction) => Promise<T>,
+  opts: TransactionOpts = {}
+): Promise<T> {
+  const {
+    retries = DEFAULT_TRANSACTION_RETRIES,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    isolationLevel,
+    rows = [],
+  } = opts;
+
+  const run = (trx: Knex.Transaction): Promise<T> =>
+    withRowConnection(rows, trx, () => fn(trx));
+
+  if (conn.isTransaction) {
+    return withRowSnapshots(rows, () => conn.transaction(run));
+  }
+
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await withRowSnapshots(rows, () =>
+        conn.transaction(run, { isolationLevel })
+      );
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      await delay(retryDelay * 2 ** attempt);
+    }
+  }
+}
+
+async function withRowSnapshots<T>(
+  rows: TransactionRow[],
+  fn: () => Promise<T>
+): Promise<T> {
+  const snapshots = rows.map((row) => row.snapshot());
+
+  try {
+    return await fn();
+  } catch (error) {
+    for (const [i, row] of rows.entries()) {
+      row.restoreSnapshot(snapshots[i]);
+    }
+
+    throw error;
+  }
+}
+
+async function withRowConnection<T>(
+  rows: TransactionRow[],
+  conn: Connection,
+  fn: () => Promise<T>
+): Promise<T> {
+  const connections = rows.map((row) => row.connection);
+
+  for (const row of rows) {
+    row.connection = conn;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    for (const [i, row] of rows.entries()) {
+      row.connection = connections[i];
+    }
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}